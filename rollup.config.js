@@ -3,19 +3,34 @@ import commonjs from '@rollup/plugin-commonjs';
 import json from '@rollup/plugin-json';
 import typescript from 'rollup-plugin-typescript2';
 
+// The React bindings use hooks, Next.js App Router only lets client components import them
+const banner = (chunk) => (chunk.isEntry && chunk.name === 'react' ? "'use client';" : '');
+
+// Entries are built together so that code they share lives in a single chunk
 export default {
-	input: 'src/index.ts',
+	input: {
+		'rift-js': 'src/index.ts',
+		testing: 'src/testing/index.ts',
+		react: 'src/react/index.ts',
+	},
 	output: [
 		{
-			file: 'dist/rift-js.cjs.js',
+			dir: 'dist',
 			format: 'cjs',
 			sourcemap: true,
+			banner,
+			entryFileNames: '[name].cjs.js',
+			chunkFileNames: 'chunks/[name]-[hash].cjs.js',
 		},
 		{
-			file: 'dist/rift-js.esm.js',
+			dir: 'dist',
 			format: 'esm',
 			sourcemap: true,
+			banner,
+			entryFileNames: '[name].esm.js',
+			chunkFileNames: 'chunks/[name]-[hash].esm.js',
 		},
 	],
+	external: ['react', 'react/jsx-runtime'],
 	plugins: [json(), resolve(), commonjs(), typescript({ useTsconfigDeclarationDir: true })],
 };
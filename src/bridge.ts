@@ -1,17 +1,40 @@
-import { ERROR_CODES, MESSAGE_TIMEOUT } from './constants';
+import { decodeCadence, encodeArguments, isJsonCadenceValue } from './cadence';
+import { getConfig } from './config';
+import { ERROR_CODES, HANDSHAKE_RETRY_INTERVAL, RIFT_CAPABILITIES, RIFT_VERSION } from './constants';
+import { RiftError, toErrorCode } from './errors';
+import { observeContentHeight } from './resize';
+import { DEFAULT_THEME, normalizeTheme } from './theme';
 import { EventEmitter } from './events';
 import {
 	RiftEventType,
 	RiftHandshakeMessage,
 	RiftIntentMessage,
+	RiftIntentPayload,
 	RiftResultMessage,
 	RiftScriptResultMessage,
 	RiftErrorMessage,
 	RiftContextMessage,
 	RiftMessage,
+	RiftAction,
+	RiftCancelMessage,
+	RiftDisconnectMessage,
+	RiftResizeMessage,
+	RiftTheme,
+	RiftTxStatus,
+	RiftTxStatusMessage,
 } from './rift';
+import { MutateOptions, QueryOptions, RiftCallOptions } from './types';
 import { generateMessageId, normalizeError } from './utils';
 
+/**
+ * An intent waiting for its reply from the wallet
+ */
+interface PendingRequest {
+	action: RiftAction;
+	resolve: (result: RiftScriptResultMessage | RiftResultMessage) => void;
+	reject: (error: RiftErrorMessage) => void;
+}
+
 /**
  * Bridge handles communication with the wallet via postMessage
  */
@@ -19,6 +42,21 @@ export class RiftBridge extends EventEmitter {
 	private address: string | null = null;
 	private network: string | null = null;
 	private connected = false;
+	// Set when the frame disconnects, context messages are ignored until it connects again
+	private disconnectedByFrame = false;
+	private pendingRequests: Map<string, PendingRequest> = new Map();
+	private parentOrigin: string | null = null;
+	private txStatuses: Map<string, RiftTxStatus> = new Map();
+	private walletVersion: string | null = null;
+	private theme: RiftTheme = { ...DEFAULT_THEME };
+	private frameId: string | null = null;
+	// Wallets predating version negotiation are assumed to answer the base actions
+	private walletCapabilities: RiftAction[] = [...RIFT_CAPABILITIES];
+	// Rejections of the handshakes waiting for a context, called on destroy
+	private pendingConnects: Set<(error: RiftError) => void> = new Set();
+	private messageListener: (event: MessageEvent) => void = (event) => this.handleMessage(event);
+	private domReadyListener: (() => void) | null = null;
+	private destroyed = false;
 
 	constructor() {
 		super();
@@ -27,52 +65,199 @@ export class RiftBridge extends EventEmitter {
 
 	/**
 	 * Initialize connection with wallet
+	 * @param options Connection timeout and abort signal
 	 */
-	public async connect(): Promise<void> {
+	public async connect(options: RiftCallOptions = {}): Promise<void> {
+		if (this.destroyed) {
+			throw new RiftError(ERROR_CODES.NOT_INITIALIZED, 'The bridge was destroyed');
+		}
+
 		if (this.connected) {
 			return;
 		}
 
 		// Ensure the DOM is fully loaded before attempting to connect
 		if (document.readyState !== 'complete') {
-			return new Promise((resolve) => {
+			return new Promise((resolve, reject) => {
 				window.addEventListener(
 					'load',
 					() => {
-						this.connect().then(resolve);
+						this.connect(options).then(resolve, reject);
 					},
 					{ once: true },
 				);
 			});
 		}
 
+		if (options.signal?.aborted) {
+			throw new RiftError(ERROR_CODES.ABORTED, 'Connection was aborted');
+		}
+
+		// Opened directly in a browser tab rather than embedded by a wallet
+		if (window.parent === window) {
+			throw new RiftError(ERROR_CODES.WALLET_UNAVAILABLE, 'The frame is not embedded in a wallet');
+		}
+
+		this.disconnectedByFrame = false;
+
 		const handshakeMsg: RiftHandshakeMessage = {
 			type: 'rift:handshake',
+			riftVersion: RIFT_VERSION,
+			capabilities: [...RIFT_CAPABILITIES],
 		};
 
 		// Send handshake message to parent
 		this.sendMessage(handshakeMsg);
 
-		// Wait for context response
+		// Wait for context response, sending the handshake again until the wallet answers
 		return new Promise((resolve, reject) => {
-			const timeout = setTimeout(() => {
-				reject(new Error('Connection timed out'));
-			}, MESSAGE_TIMEOUT);
-
-			const contextHandler = (ctx: any) => {
-				clearTimeout(timeout);
-				this.address = ctx.address;
-				this.network = ctx.network;
-				this.connected = true;
-				this.emit('ready', { address: this.address, network: this.network });
+			const timeoutMs = options.timeout ?? getConfig().timeouts.connect;
+			let timeout: ReturnType<typeof setTimeout> | null = null;
+			const retry = setInterval(() => this.sendMessage(handshakeMsg), HANDSHAKE_RETRY_INTERVAL);
+
+			const cleanup = () => {
+				if (timeout !== null) {
+					clearTimeout(timeout);
+				}
+				clearInterval(retry);
+				options.signal?.removeEventListener('abort', abortHandler);
 				this.off('rift:context' as RiftEventType, contextHandler);
+				this.pendingConnects.delete(destroyHandler);
+			};
+
+			const contextHandler = () => {
+				cleanup();
 				resolve();
 			};
 
+			const abortHandler = () => {
+				cleanup();
+				reject(new RiftError(ERROR_CODES.ABORTED, 'Connection was aborted'));
+			};
+
+			const destroyHandler = (error: RiftError) => {
+				cleanup();
+				reject(error);
+			};
+
+			if (timeoutMs > 0) {
+				timeout = setTimeout(() => {
+					cleanup();
+					reject(new RiftError(ERROR_CODES.WALLET_UNAVAILABLE, 'No wallet answered the handshake'));
+				}, timeoutMs);
+			}
+
+			options.signal?.addEventListener('abort', abortHandler, { once: true });
 			this.on('rift:context' as RiftEventType, contextHandler);
+			this.pendingConnects.add(destroyHandler);
 		});
 	}
 
+	/**
+	 * Tear the bridge down: disconnect, reject pending calls and handshakes, and remove the message listener
+	 * The bridge can't connect again afterwards
+	 */
+	public destroy(): void {
+		if (this.destroyed) {
+			return;
+		}
+
+		if (this.connected) {
+			this.disconnect();
+		}
+
+		this.destroyed = true;
+
+		const error = new RiftError(ERROR_CODES.NOT_INITIALIZED, 'The bridge was destroyed');
+		const pendingConnects = Array.from(this.pendingConnects);
+		this.pendingConnects.clear();
+		pendingConnects.forEach((reject) => reject(error));
+
+		const pendingRequests = Array.from(this.pendingRequests.values());
+		this.pendingRequests.clear();
+		pendingRequests.forEach((request) =>
+			request.reject({
+				type: 'rift:error',
+				code: error.code,
+				message: error.message,
+			}),
+		);
+
+		if (this.domReadyListener) {
+			window.removeEventListener('DOMContentLoaded', this.domReadyListener);
+			this.domReadyListener = null;
+		}
+		window.removeEventListener('message', this.messageListener);
+	}
+
+	/**
+	 * Disconnect from the wallet
+	 * Pending calls are rejected and context messages are ignored until `connect` is called again
+	 */
+	public disconnect(): void {
+		this.disconnectedByFrame = true;
+
+		if (!this.connected) {
+			return;
+		}
+
+		const disconnectMsg: RiftDisconnectMessage = {
+			type: 'rift:disconnect',
+		};
+		this.sendMessage(disconnectMsg);
+
+		this.handleDisconnect('frame');
+	}
+
+	/**
+	 * Check whether the bridge is connected to the wallet
+	 */
+	public isConnected(): boolean {
+		return this.connected;
+	}
+
+	/**
+	 * Get the network the wallet is connected to
+	 */
+	public getNetwork(): string | null {
+		return this.network;
+	}
+
+	/**
+	 * Get the ID the wallet assigned to this frame
+	 */
+	public getFrameId(): string | null {
+		return this.frameId;
+	}
+
+	/**
+	 * Get the theme shared by the wallet
+	 */
+	public getTheme(): RiftTheme {
+		return { ...this.theme };
+	}
+
+	/**
+	 * Get the actions the wallet is able to answer
+	 */
+	public getCapabilities(): RiftAction[] {
+		return [...this.walletCapabilities];
+	}
+
+	/**
+	 * Get the version of rift-js the wallet reported during the handshake
+	 */
+	public getWalletVersion(): string | null {
+		return this.walletVersion;
+	}
+
+	/**
+	 * Check whether the wallet supports an action
+	 */
+	public supports(action: RiftAction): boolean {
+		return this.walletCapabilities.includes(action);
+	}
+
 	/**
 	 * Get user's Flow address
 	 */
@@ -82,7 +267,7 @@ export class RiftBridge extends EventEmitter {
 		}
 
 		if (!this.address) {
-			throw new Error('No address available');
+			throw new RiftError(ERROR_CODES.NOT_INITIALIZED, 'No address available', { action: 'getUserAddress' });
 		}
 
 		return this.address;
@@ -94,48 +279,26 @@ export class RiftBridge extends EventEmitter {
 	 * @param options Script options with Cadence code and arguments
 	 * @returns Promise that resolves to the result of the script
 	 */
-	public async query(options: { cadence: string; args: any[] }): Promise<any> {
+	public async query(options: QueryOptions): Promise<any> {
 		if (!this.connected) {
-			await this.connect();
+			await this.connect({ signal: options.signal });
 		}
 
 		const intentMsg: RiftIntentMessage = {
 			type: 'rift:intent',
 			action: 'query',
-			payload: {
-				...options,
-				network: this.network,
-			},
+			payload: this.createIntentPayload(options),
 		};
 
-		this.sendMessage(intentMsg);
-
-		return new Promise((resolve, reject) => {
-			const timeout = setTimeout(() => {
-				const error = {
-					code: ERROR_CODES.TIMEOUT,
-					message: 'Script execution timed out',
-				};
-				this.emit('error', error);
-				reject(new Error(error.message));
-			}, MESSAGE_TIMEOUT);
-
-			const resultHandler = (result: RiftScriptResultMessage) => {
-				clearTimeout(timeout);
-				this.off('rift:queryResult' as RiftEventType, resultHandler);
-				resolve(result.result);
-			};
-
-			const errorHandler = (error: RiftErrorMessage) => {
-				clearTimeout(timeout);
-				this.off('rift:error' as RiftEventType, errorHandler);
-				this.emit('error', { code: error.code, message: error.message });
-				reject(new Error(error.message));
-			};
-
-			this.on('rift:queryResult' as RiftEventType, resultHandler);
-			this.on('rift:error' as RiftEventType, errorHandler);
-		});
+		const result = (await this.request(intentMsg, {
+			timeout: options.timeout ?? getConfig().timeouts.query,
+			timeoutMessage: 'Script execution timed out',
+			signal: options.signal,
+		})) as RiftScriptResultMessage;
+		// Only results the wallet marked as JSON-Cadence are decoded, plain objects may share its shape
+		return result.encoding === 'json-cadence' && isJsonCadenceValue(result.result)
+			? decodeCadence(result.result)
+			: result.result;
 	}
 
 	/**
@@ -144,71 +307,213 @@ export class RiftBridge extends EventEmitter {
 	 * @param options Transaction options with Cadence code and arguments
 	 * @returns Promise that resolves to the transaction ID
 	 */
-	public async mutate(options: { cadence: string; args: any[] }): Promise<string> {
+	public async mutate(options: MutateOptions): Promise<string> {
 		if (!this.connected) {
-			await this.connect();
+			await this.connect({ signal: options.signal });
 		}
 
 		const intentMsg: RiftIntentMessage = {
 			type: 'rift:intent',
 			action: 'mutate',
-			payload: {
-				...options,
-				network: this.network,
-			},
+			payload: this.createIntentPayload(options),
 		};
 
-		this.sendMessage(intentMsg);
+		const pending = this.request(intentMsg, {
+			timeout: options.timeout ?? getConfig().timeouts.mutate,
+			timeoutMessage: 'Transaction timed out',
+			signal: options.signal,
+		});
 		this.emit('tx:submitted', null);
 
+		const result = (await pending) as RiftResultMessage;
+
+		if (result.status === 'success') {
+			this.emit('tx:success', result.txId);
+			return result.txId;
+		}
+
+		this.emit('tx:error', { txId: result.txId, message: 'Transaction failed' });
+		throw new RiftError(ERROR_CODES.TRANSACTION_FAILED, 'Transaction failed', { action: 'mutate' });
+	}
+
+	/**
+	 * Report the document's content height to the wallet whenever it changes
+	 * @param element Element wrapping the content, measured instead of the elements of the body
+	 * @returns Function stopping the observation
+	 */
+	public autoResize(element?: HTMLElement): () => void {
+		return observeContentHeight((height) => {
+			const resizeMsg: RiftResizeMessage = {
+				type: 'rift:resize',
+				height,
+			};
+			this.sendMessage(resizeMsg);
+		}, element);
+	}
+
+	/**
+	 * Get the latest status received for a transaction
+	 * @param txId Transaction ID
+	 * @returns The latest status, or null if the wallet hasn't reported any
+	 */
+	public getTxStatus(txId: string): RiftTxStatus | null {
+		return this.txStatuses.get(txId) || null;
+	}
+
+	/**
+	 * Send an intent and wait for the reply carrying its message ID
+	 * If the call times out or is aborted, the wallet is told to cancel it
+	 * @param intentMsg The intent to send
+	 * @param options Timeout (0 waits indefinitely), its error message and abort signal
+	 * @returns Promise that resolves to the wallet's result message
+	 */
+	private request(
+		intentMsg: RiftIntentMessage,
+		options: { timeout: number; timeoutMessage: string; signal?: AbortSignal },
+	): Promise<RiftScriptResultMessage | RiftResultMessage> {
 		return new Promise((resolve, reject) => {
-			const timeout = setTimeout(() => {
-				const error = {
-					code: ERROR_CODES.TIMEOUT,
-					message: 'Transaction timed out',
-				};
+			const { action } = intentMsg;
+			const requestId = generateMessageId();
+
+			// Fail fast instead of waiting for a wallet that will never answer
+			if (!this.supports(action)) {
+				const error = new RiftError(ERROR_CODES.NOT_SUPPORTED, `Action not supported by wallet: ${action}`, {
+					action,
+					requestId,
+				});
 				this.emit('error', error);
-				reject(new Error(error.message));
-			}, MESSAGE_TIMEOUT);
-
-			const resultHandler = (result: RiftResultMessage) => {
-				clearTimeout(timeout);
-				this.off('rift:mutateResult' as RiftEventType, resultHandler);
-
-				if (result.status === 'success') {
-					this.emit('tx:success', result.txId);
-					resolve(result.txId);
-				} else {
-					this.emit('tx:error', { txId: result.txId, message: 'Transaction failed' });
-					reject(new Error('Transaction failed'));
+				reject(error);
+				return;
+			}
+
+			if (options.signal?.aborted) {
+				reject(new RiftError(ERROR_CODES.ABORTED, 'Request was aborted', { action, requestId }));
+				return;
+			}
+
+			let timeout: ReturnType<typeof setTimeout> | null = null;
+
+			const cleanup = () => {
+				if (timeout !== null) {
+					clearTimeout(timeout);
 				}
+				options.signal?.removeEventListener('abort', abortHandler);
+			};
+
+			const cancel = () => {
+				this.pendingRequests.delete(requestId);
+				cleanup();
+
+				const cancelMsg: RiftCancelMessage = {
+					type: 'rift:cancel',
+					requestId,
+				};
+				this.sendMessage(cancelMsg);
 			};
 
-			const errorHandler = (error: RiftErrorMessage) => {
-				clearTimeout(timeout);
-				this.off('rift:error' as RiftEventType, errorHandler);
-				this.emit('error', { code: error.code, message: error.message });
-				reject(new Error(error.message));
+			const abortHandler = () => {
+				cancel();
+				reject(new RiftError(ERROR_CODES.ABORTED, 'Request was aborted', { action, requestId }));
 			};
 
-			this.on('rift:mutateResult' as RiftEventType, resultHandler);
-			this.on('rift:error' as RiftEventType, errorHandler);
+			if (options.timeout > 0) {
+				timeout = setTimeout(() => {
+					cancel();
+					const error = new RiftError(ERROR_CODES.TIMEOUT, options.timeoutMessage, { action, requestId });
+					this.emit('error', error);
+					reject(error);
+				}, options.timeout);
+			}
+
+			options.signal?.addEventListener('abort', abortHandler, { once: true });
+
+			this.pendingRequests.set(requestId, {
+				action,
+				resolve: (result) => {
+					cleanup();
+					resolve(result);
+				},
+				reject: (message) => {
+					cleanup();
+					const error = new RiftError(toErrorCode(message.code), message.message, { action, requestId });
+					this.emit('error', error);
+					reject(error);
+				},
+			});
+
+			this.sendMessage(intentMsg, requestId);
 		});
 	}
 
+	/**
+	 * Settle the pending request a wallet reply belongs to
+	 * Replies without a requestId (older wallets) settle the oldest pending request they can answer
+	 */
+	private settleRequest(message: RiftScriptResultMessage | RiftResultMessage | RiftErrorMessage): void {
+		let requestId = message.requestId;
+
+		if (!requestId) {
+			const expectedAction =
+				message.type === 'rift:queryResult' ? 'query' : message.type === 'rift:mutateResult' ? 'mutate' : null;
+
+			for (const [id, request] of this.pendingRequests) {
+				if (!expectedAction || request.action === expectedAction) {
+					requestId = id;
+					break;
+				}
+			}
+		}
+
+		const request = requestId ? this.pendingRequests.get(requestId) : undefined;
+
+		if (!requestId || !request) {
+			// Errors that don't belong to any call are still surfaced to the frame
+			if (message.type === 'rift:error') {
+				this.emit('error', new RiftError(toErrorCode(message.code), message.message));
+			}
+			return;
+		}
+
+		this.pendingRequests.delete(requestId);
+
+		if (message.type === 'rift:error') {
+			request.reject(message);
+		} else {
+			request.resolve(message);
+		}
+	}
+
+	/**
+	 * Build the payload of a query or mutate, with the identity of the frame
+	 */
+	private createIntentPayload(options: QueryOptions | MutateOptions): RiftIntentPayload {
+		return {
+			cadence: options.cadence,
+			args: encodeArguments(options.args),
+			network: this.network,
+			rift: {
+				frameId: this.frameId,
+				// The URL origin, unlike window.origin it names the app even in frames with an opaque origin
+				origin: window.location.origin,
+				riftVersion: RIFT_VERSION,
+				timestamp: Math.floor(Date.now() / 1000),
+			},
+		};
+	}
+
 	/**
 	 * Send a message to the parent window (wallet)
 	 */
-	private sendMessage(message: RiftMessage): void {
+	private sendMessage(message: RiftMessage, id: string = generateMessageId()): void {
 		const messageWithId = {
 			...message,
-			id: generateMessageId(),
+			id,
 		};
 
 		// Check if parent window exists and is not the same as current window
 		if (window.parent && window.parent !== window) {
 			try {
-				window.parent.postMessage(messageWithId, '*');
+				this.postToParent(messageWithId);
 			} catch (error) {
 				console.error('Error sending message to parent:', error);
 				this.emit('error', normalizeError(error));
@@ -221,7 +526,7 @@ export class RiftBridge extends EventEmitter {
 				setTimeout(() => {
 					if (window.parent && window.parent !== window) {
 						try {
-							window.parent.postMessage(messageWithId, '*');
+							this.postToParent(messageWithId);
 						} catch (error) {
 							console.error('Error sending message to parent on retry:', error);
 						}
@@ -231,47 +536,114 @@ export class RiftBridge extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Post a message to the parent window with an explicit target origin
+	 * Before the wallet origin is known, only the handshake may go out, to the configured
+	 * allow-list or to any origin since it carries no data
+	 */
+	private postToParent(message: RiftMessage): void {
+		if (this.parentOrigin) {
+			// An opaque parent origin can't be named as a target
+			window.parent.postMessage(message, this.parentOrigin === 'null' ? '*' : this.parentOrigin);
+			return;
+		}
+
+		if (message.type !== 'rift:handshake') {
+			throw new RiftError(ERROR_CODES.NOT_INITIALIZED, 'Wallet origin is not known yet, complete the handshake first');
+		}
+
+		const { allowedParentOrigins } = getConfig();
+		if (allowedParentOrigins.length === 0) {
+			window.parent.postMessage(message, '*');
+			return;
+		}
+
+		allowedParentOrigins.forEach((origin) => {
+			window.parent.postMessage(message, origin);
+		});
+	}
+
+	/**
+	 * Check whether a message event comes from the wallet
+	 * The source must be the parent window, and the origin must match the one learned during the handshake,
+	 * or the configured allow-list for the first context message
+	 */
+	private isFromWallet(event: MessageEvent): boolean {
+		if (!event.source || event.source !== window.parent) {
+			return false;
+		}
+
+		if (this.parentOrigin) {
+			return event.origin === this.parentOrigin;
+		}
+
+		if (event.data.type !== 'rift:context') {
+			return false;
+		}
+
+		const { allowedParentOrigins } = getConfig();
+		return allowedParentOrigins.length === 0 || allowedParentOrigins.includes(event.origin);
+	}
+
 	/**
 	 * Set up the message event listener
 	 */
 	private setupMessageListener(): void {
 		// Wait for DOM ready state if needed
-		const setupListener = () => {
-			window.addEventListener('message', (event) => {
-				const data = event.data;
+		if (document.readyState === 'loading') {
+			this.domReadyListener = () => {
+				this.domReadyListener = null;
+				window.addEventListener('message', this.messageListener);
+			};
+			window.addEventListener('DOMContentLoaded', this.domReadyListener, { once: true });
+		} else {
+			window.addEventListener('message', this.messageListener);
+		}
+	}
 
-				if (!data || !data.type || !data.type.startsWith('rift:')) {
-					return;
-				}
+	/**
+	 * Handle a message from the wallet
+	 */
+	private handleMessage(event: MessageEvent): void {
+		const data = event.data;
 
-				try {
-					switch (data.type) {
-						case 'rift:context':
-							this.handleContextMessage(data as RiftContextMessage);
-							break;
-						case 'rift:mutateResult':
-							this.emit('rift:mutateResult' as RiftEventType, data);
-							break;
-						case 'rift:queryResult':
-							this.emit('rift:queryResult' as RiftEventType, data);
-							break;
-						case 'rift:error':
-							this.emit('rift:error' as RiftEventType, data);
-							break;
-						default:
-							console.warn(`Unknown message type: ${data.type}`);
-					}
-				} catch (error) {
-					const normalizedError = normalizeError(error);
-					this.emit('error', normalizedError);
-				}
-			});
-		};
+		if (!data || !data.type || !data.type.startsWith('rift:')) {
+			return;
+		}
 
-		if (document.readyState === 'loading') {
-			window.addEventListener('DOMContentLoaded', setupListener);
-		} else {
-			setupListener();
+		if (!this.isFromWallet(event)) {
+			return;
+		}
+
+		// Lock onto the wallet origin once the first context message is accepted
+		if (!this.parentOrigin) {
+			this.parentOrigin = event.origin;
+		}
+
+		try {
+			switch (data.type) {
+				case 'rift:context':
+					this.handleContextMessage(data as RiftContextMessage);
+					break;
+				case 'rift:mutateResult':
+				case 'rift:queryResult':
+				case 'rift:error':
+					this.settleRequest(data);
+					break;
+				case 'rift:txStatus':
+					this.handleTxStatusMessage(data as RiftTxStatusMessage);
+					break;
+				case 'rift:disconnect':
+					if (this.connected) {
+						this.handleDisconnect('wallet', (data as RiftDisconnectMessage).reason);
+					}
+					break;
+				default:
+					console.warn(`Unknown message type: ${data.type}`);
+			}
+		} catch (error) {
+			const normalizedError = normalizeError(error);
+			this.emit('error', normalizedError);
 		}
 	}
 
@@ -279,9 +651,96 @@ export class RiftBridge extends EventEmitter {
 	 * Handle context message from wallet
 	 */
 	private handleContextMessage(message: RiftContextMessage): void {
+		if (this.disconnectedByFrame) {
+			return;
+		}
+
+		const wasConnected = this.connected;
+		const previousAddress = this.address;
+		const previousNetwork = this.network;
+
 		this.address = message.address;
 		this.network = message.network;
+
+		if (message.riftVersion) {
+			this.walletVersion = message.riftVersion;
+		}
+
+		if (Array.isArray(message.capabilities)) {
+			this.walletCapabilities = [...message.capabilities];
+		}
+
+		if (typeof message.frameId === 'string') {
+			this.frameId = message.frameId;
+		}
+
+		const previousTheme = this.theme;
+		if (message.theme) {
+			this.theme = normalizeTheme(message.theme);
+		}
+		const themeChanged = previousTheme.accentColor !== this.theme.accentColor || previousTheme.mode !== this.theme.mode;
+
 		this.connected = true;
 		this.emit('rift:context' as RiftEventType, message);
+
+		if (!wasConnected) {
+			this.emit('ready', { address: this.address, network: this.network });
+			return;
+		}
+
+		if (previousAddress !== this.address) {
+			this.emit('accountChanged', { address: this.address, previousAddress });
+		}
+
+		if (previousNetwork !== this.network) {
+			this.emit('networkChanged', { network: this.network, previousNetwork });
+		}
+
+		if (themeChanged) {
+			this.emit('themeChanged', this.getTheme());
+		}
+	}
+
+	/**
+	 * Reset the connection state and reject the calls still waiting for the wallet
+	 * @param initiator Side that ended the connection
+	 * @param reason Reason given by the wallet, if any
+	 */
+	private handleDisconnect(initiator: 'frame' | 'wallet', reason?: string): void {
+		this.connected = false;
+		this.address = null;
+		this.network = null;
+
+		const pendingRequests = Array.from(this.pendingRequests.values());
+		this.pendingRequests.clear();
+		pendingRequests.forEach((request) =>
+			request.reject({
+				type: 'rift:error',
+				code: ERROR_CODES.CONNECTION_ERROR,
+				message: 'Disconnected from wallet',
+			}),
+		);
+
+		this.emit('disconnected', { initiator, reason });
+	}
+
+	/**
+	 * Handle transaction status message from wallet
+	 */
+	private handleTxStatusMessage(message: RiftTxStatusMessage): void {
+		const status: RiftTxStatus = {
+			txId: message.txId,
+			status: message.status,
+			errorMessage: message.errorMessage,
+			events: message.events,
+		};
+
+		this.txStatuses.set(status.txId, status);
+		this.emit('tx:status', status);
+		this.emit(`tx:${status.status}`, status);
+
+		if (status.errorMessage) {
+			this.emit('tx:error', { txId: status.txId, message: status.errorMessage });
+		}
 	}
 }
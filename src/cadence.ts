@@ -0,0 +1,399 @@
+import { ERROR_CODES } from './constants';
+import { RiftError } from './errors';
+
+/**
+ * A value encoded in the JSON-Cadence Data Interchange Format
+ */
+export interface JsonCadenceValue {
+	type: string;
+	value?: any;
+}
+
+/**
+ * A Cadence type able to encode JS values into JSON-Cadence
+ */
+export interface CadenceType<T = any> {
+	/** Cadence type name, e.g. `UFix64` or `[String]` */
+	label: string;
+	/** Encode a JS value into JSON-Cadence */
+	encode: (value: T) => JsonCadenceValue;
+}
+
+/**
+ * A query or mutate argument, pairing a JS value with its Cadence type
+ */
+export interface CadenceArgument<T = any> {
+	value: T;
+	type: CadenceType<T>;
+}
+
+/**
+ * Integer types, encoded as decimal strings
+ */
+const INTEGER_TYPES = [
+	'Int',
+	'Int8',
+	'Int16',
+	'Int32',
+	'Int64',
+	'Int128',
+	'Int256',
+	'UInt',
+	'UInt8',
+	'UInt16',
+	'UInt32',
+	'UInt64',
+	'UInt128',
+	'UInt256',
+	'Word8',
+	'Word16',
+	'Word32',
+	'Word64',
+] as const;
+
+/**
+ * Fixed-point types, encoded as decimal strings with 8 fractional digits
+ */
+const FIXED_POINT_TYPES = ['Fix64', 'UFix64'] as const;
+
+/**
+ * Composite types, encoded with a type ID and named fields
+ */
+const COMPOSITE_TYPES = ['Struct', 'Resource', 'Event', 'Contract', 'Enum'];
+
+/**
+ * Every type name the decoder understands
+ */
+const KNOWN_TYPES = new Set<string>([
+	...INTEGER_TYPES,
+	...FIXED_POINT_TYPES,
+	...COMPOSITE_TYPES,
+	'Void',
+	'Optional',
+	'Bool',
+	'String',
+	'Character',
+	'Address',
+	'Array',
+	'Dictionary',
+	'Path',
+	'Type',
+	'Capability',
+]);
+
+/**
+ * Build an error for a value that doesn't match its Cadence type
+ */
+function invalidArgument(label: string, value: unknown, reason?: string): RiftError {
+	const text = typeof value === 'bigint' ? value.toString() : JSON.stringify(value);
+	return new RiftError(
+		ERROR_CODES.INVALID_PAYLOAD,
+		`Invalid Cadence argument: ${text} is not a valid ${label}${reason ? `, ${reason}` : ''}`,
+	);
+}
+
+/**
+ * Get the bounds of an integer type from its bit width, `Int` and `UInt` are unbounded
+ */
+function getIntegerRange(label: string, unsigned: boolean): { min: bigint | null; max: bigint | null } {
+	const bits = /\d+$/.exec(label);
+	if (!bits) {
+		return { min: unsigned ? 0n : null, max: null };
+	}
+
+	const size = BigInt(bits[0]);
+	if (unsigned) {
+		return { min: 0n, max: 2n ** size - 1n };
+	}
+
+	return { min: -(2n ** (size - 1n)), max: 2n ** (size - 1n) - 1n };
+}
+
+/**
+ * Create an integer type
+ */
+function integerType(label: string): CadenceType<number | string | bigint> {
+	const unsigned = label.startsWith('U') || label.startsWith('Word');
+	const { min, max } = getIntegerRange(label, unsigned);
+
+	return {
+		label,
+		encode: (value) => {
+			// Larger numbers have lost their exact value, e.g. 1e21
+			if (typeof value === 'number' && Number.isInteger(value) && !Number.isSafeInteger(value)) {
+				throw invalidArgument(label, value, 'pass integers beyond 2^53 as strings or bigints');
+			}
+
+			const text = String(value);
+			if (!/^-?\d+$/.test(text)) {
+				throw invalidArgument(label, value);
+			}
+
+			const integer = BigInt(text);
+			if ((min !== null && integer < min) || (max !== null && integer > max)) {
+				throw invalidArgument(label, value, `expected ${min ?? '-∞'} to ${max ?? '∞'}`);
+			}
+
+			return { type: label, value: integer.toString() };
+		},
+	};
+}
+
+/**
+ * Create a fixed-point type
+ */
+function fixedPointType(label: string): CadenceType<number | string> {
+	const unsigned = label === 'UFix64';
+
+	return {
+		label,
+		encode: (value) => {
+			const text = typeof value === 'number' ? value.toFixed(8) : String(value);
+			const match = (unsigned ? /^(\d+)(?:\.(\d{1,8}))?$/ : /^(-?\d+)(?:\.(\d{1,8}))?$/).exec(text);
+			if (!match) {
+				throw invalidArgument(label, value);
+			}
+
+			return { type: label, value: `${match[1]}.${(match[2] || '').padEnd(8, '0')}` };
+		},
+	};
+}
+
+/**
+ * Create a type encoding a JS primitive as-is
+ */
+function primitiveType<T>(label: string, isValid: (value: unknown) => boolean): CadenceType<T> {
+	return {
+		label,
+		encode: (value) => {
+			if (!isValid(value)) {
+				throw invalidArgument(label, value);
+			}
+
+			return { type: label, value };
+		},
+	};
+}
+
+/**
+ * Cadence type table used to build query and mutate arguments
+ */
+export const t = {
+	...(Object.fromEntries(INTEGER_TYPES.map((label) => [label, integerType(label)])) as Record<
+		(typeof INTEGER_TYPES)[number],
+		CadenceType<number | string | bigint>
+	>),
+	...(Object.fromEntries(FIXED_POINT_TYPES.map((label) => [label, fixedPointType(label)])) as Record<
+		(typeof FIXED_POINT_TYPES)[number],
+		CadenceType<number | string>
+	>),
+
+	Void: {
+		label: 'Void',
+		encode: () => ({ type: 'Void' }),
+	} as CadenceType<null | undefined>,
+
+	Bool: primitiveType<boolean>('Bool', (value) => typeof value === 'boolean'),
+
+	String: primitiveType<string>('String', (value) => typeof value === 'string'),
+
+	Character: primitiveType<string>('Character', (value) => typeof value === 'string' && [...value].length === 1),
+
+	Address: {
+		label: 'Address',
+		encode: (value: string) => {
+			if (typeof value !== 'string' || !/^(0x)?[0-9a-fA-F]{1,16}$/.test(value)) {
+				throw invalidArgument('Address', value);
+			}
+
+			return { type: 'Address', value: value.startsWith('0x') ? value : `0x${value}` };
+		},
+	} as CadenceType<string>,
+
+	Path: {
+		label: 'Path',
+		encode: (value: { domain: 'storage' | 'public' | 'private'; identifier: string }) => {
+			if (!value || typeof value.domain !== 'string' || typeof value.identifier !== 'string') {
+				throw invalidArgument('Path', value);
+			}
+
+			return { type: 'Path', value: { domain: value.domain, identifier: value.identifier } };
+		},
+	} as CadenceType<{ domain: 'storage' | 'public' | 'private'; identifier: string }>,
+
+	/**
+	 * Optional of another type, `null` and `undefined` encode as nil
+	 */
+	Optional<T>(inner: CadenceType<T>): CadenceType<T | null | undefined> {
+		return {
+			label: `${inner.label}?`,
+			encode: (value) => ({
+				type: 'Optional',
+				value: value === null || value === undefined ? null : inner.encode(value),
+			}),
+		};
+	},
+
+	/**
+	 * Variable-sized array of another type
+	 */
+	Array<T>(inner: CadenceType<T>): CadenceType<T[]> {
+		const label = `[${inner.label}]`;
+
+		return {
+			label,
+			encode: (value) => {
+				if (!Array.isArray(value)) {
+					throw invalidArgument(label, value);
+				}
+
+				return { type: 'Array', value: value.map((item) => inner.encode(item)) };
+			},
+		};
+	},
+
+	/**
+	 * Dictionary from a key type to a value type, given as a plain object or a Map
+	 */
+	Dictionary<K, V>(key: CadenceType<K>, valueType: CadenceType<V>): CadenceType<Record<string, V> | Map<K, V>> {
+		const label = `{${key.label}: ${valueType.label}}`;
+
+		return {
+			label,
+			encode: (value) => {
+				if (!value || typeof value !== 'object') {
+					throw invalidArgument(label, value);
+				}
+
+				const entries: Array<[any, V]> = value instanceof Map ? Array.from(value.entries()) : Object.entries(value);
+
+				return {
+					type: 'Dictionary',
+					value: entries.map(([k, v]) => ({ key: key.encode(k), value: valueType.encode(v) })),
+				};
+			},
+		};
+	},
+
+	/**
+	 * Struct identified by its fully qualified type ID (e.g. `A.0x1.Kitties.Kitty`), given as a plain object
+	 */
+	Struct(id: string, fields: Record<string, CadenceType>): CadenceType<Record<string, any>> {
+		return {
+			label: id,
+			encode: (value) => {
+				if (!value || typeof value !== 'object') {
+					throw invalidArgument(id, value);
+				}
+
+				return {
+					type: 'Struct',
+					value: {
+						id,
+						fields: Object.entries(fields).map(([name, fieldType]) => ({
+							name,
+							value: fieldType.encode(value[name]),
+						})),
+					},
+				};
+			},
+		};
+	},
+};
+
+/**
+ * Build a typed argument for query and mutate
+ * @param value The JS value
+ * @param type The Cadence type of the value, from `t`
+ * @returns Argument that is encoded to JSON-Cadence when sent to the wallet
+ */
+export function arg<T>(value: T, type: CadenceType<T>): CadenceArgument<T> {
+	return { value, type };
+}
+
+/**
+ * Check whether a value is an argument built with `arg`
+ */
+export function isCadenceArgument(value: unknown): value is CadenceArgument {
+	return (
+		!!value &&
+		typeof value === 'object' &&
+		'type' in value &&
+		!!(value as CadenceArgument).type &&
+		typeof (value as CadenceArgument).type.encode === 'function'
+	);
+}
+
+/**
+ * Encode arguments to JSON-Cadence, leaving values not built with `arg` untouched
+ * @param args Query or mutate arguments
+ * @returns Arguments in JSON-Cadence
+ */
+export function encodeArguments(args: Array<CadenceArgument | any>): any[] {
+	return args.map((argument) => (isCadenceArgument(argument) ? argument.type.encode(argument.value) : argument));
+}
+
+/**
+ * Check whether a value looks like a JSON-Cadence value
+ */
+export function isJsonCadenceValue(value: unknown): value is JsonCadenceValue {
+	return !!value && typeof value === 'object' && KNOWN_TYPES.has((value as JsonCadenceValue).type);
+}
+
+/**
+ * Decode a JSON-Cadence value into a native JS value
+ * Integers are decoded to JS numbers, except those too large to be represented exactly, which stay strings.
+ * Fixed-point numbers (`UFix64`, `Fix64`) stay decimal strings, e.g. `'10.50000000'`, to keep their precision.
+ * Composite values are decoded to plain objects of their fields.
+ * @param json The JSON-Cadence value
+ * @returns The decoded JS value
+ */
+export function decodeCadence(json: JsonCadenceValue): any {
+	const { type, value } = json;
+
+	if ((INTEGER_TYPES as readonly string[]).includes(type)) {
+		const number = Number(value);
+		return Number.isSafeInteger(number) ? number : value;
+	}
+
+	if ((FIXED_POINT_TYPES as readonly string[]).includes(type)) {
+		return value;
+	}
+
+	if (COMPOSITE_TYPES.includes(type)) {
+		const result: Record<string, any> = {};
+		(value.fields || []).forEach((field: { name: string; value: JsonCadenceValue }) => {
+			result[field.name] = decodeCadence(field.value);
+		});
+		return result;
+	}
+
+	switch (type) {
+		case 'Void':
+			return null;
+		case 'Optional':
+			return value === null || value === undefined ? null : decodeCadence(value);
+		case 'Bool':
+		case 'String':
+		case 'Character':
+		case 'Address':
+			return value;
+		case 'Array':
+			return (value as JsonCadenceValue[]).map((item) => decodeCadence(item));
+		case 'Dictionary': {
+			const result: Record<string, any> = {};
+			(value as Array<{ key: JsonCadenceValue; value: JsonCadenceValue }>).forEach((entry) => {
+				result[String(decodeCadence(entry.key))] = decodeCadence(entry.value);
+			});
+			return result;
+		}
+		case 'Path':
+			return { domain: value.domain, identifier: value.identifier };
+		case 'Type':
+			return value && value.staticType ? value.staticType.typeID || value.staticType : null;
+		case 'Capability':
+			return value;
+		default:
+			return value;
+	}
+}
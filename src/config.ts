@@ -1,3 +1,15 @@
+import { HANDSHAKE_TIMEOUT, MESSAGE_TIMEOUT, MUTATE_TIMEOUT } from './constants';
+
+/**
+ * Default time to wait for the wallet per action (ms), 0 waits indefinitely
+ */
+export interface RiftTimeouts {
+	/** Time to wait for the handshake answer, resent every second, before reporting the wallet unavailable */
+	connect: number;
+	query: number;
+	mutate: number;
+}
+
 /**
  * Configuration options for the Rift protocol
  */
@@ -7,11 +19,28 @@ export interface RiftConfig {
 	 * This should only be enabled in development environments
 	 */
 	useHttpForLocalDevelopment: boolean;
+
+	/**
+	 * Origins a frame accepts as its parent wallet
+	 * When empty, the frame locks onto the origin of the first context message it receives
+	 */
+	allowedParentOrigins: string[];
+
+	/**
+	 * Default timeouts per action, each call can override them with its `timeout` option
+	 */
+	timeouts: RiftTimeouts;
 }
 
 // Default configuration values
 const defaultConfig: RiftConfig = {
 	useHttpForLocalDevelopment: false,
+	allowedParentOrigins: [],
+	timeouts: {
+		connect: HANDSHAKE_TIMEOUT,
+		query: MESSAGE_TIMEOUT,
+		mutate: MUTATE_TIMEOUT,
+	},
 };
 
 // Current configuration (initialized with defaults)
@@ -1,6 +1,23 @@
+import { RiftAction } from './rift';
+
+// Protocol version spoken by this SDK, exchanged during the handshake
+export const RIFT_VERSION = '0.1.0';
+
+// Actions supported by this SDK, exchanged during the handshake
+export const RIFT_CAPABILITIES: RiftAction[] = ['getUserAddress', 'query', 'mutate'];
+
 // Message timeout
 export const MESSAGE_TIMEOUT = 30000;
 
+// Time to wait for a wallet to answer the handshake before reporting it unavailable
+export const HANDSHAKE_TIMEOUT = 5000;
+
+// Interval between handshakes while the wallet hasn't answered, e.g. when it attaches its listener late
+export const HANDSHAKE_RETRY_INTERVAL = 1000;
+
+// Transaction timeout, longer to leave the user time to review the approval
+export const MUTATE_TIMEOUT = 120000;
+
 // Error codes
 export const ERROR_CODES = {
 	USER_REJECTED: 'user_rejected',
@@ -11,11 +28,25 @@ export const ERROR_CODES = {
 	NOT_INITIALIZED: 'not_initialized',
 	UNKNOWN_ERROR: 'unknown_error',
 	NOT_SUPPORTED: 'not_supported',
-};
+	ABORTED: 'aborted',
+	TRANSACTION_FAILED: 'transaction_failed',
+} as const;
 
 // URI scheme
 export const RIFT_URI_SCHEME = 'rift://';
 
+// Prefix of the URI parameters read by the wallet rather than the frame
+export const RIFT_PARAM_PREFIX = 'rift-';
+
+// Rift parameters a URI may carry, without their prefix
+export const RIFT_URI_PARAMS = ['height', 'color'] as const;
+
+// Values of the rift-height parameter
+export const RIFT_HEIGHT_PRESETS = ['compact', 'standard', 'tall'] as const;
+
+// Smart download link, resuming the embedded Rift URI once the wallet is installed
+export const RIFT_DOWNLOAD_URL = 'https://rift.app/download';
+
 // Rift URL conversion prefixes
 export const RIFT_HTTPS_PREFIX = 'https://';
 export const RIFT_HTTP_PREFIX = 'http://';
@@ -25,6 +56,16 @@ export const RIFT_EVENTS = {
 	READY: 'ready',
 	TX_SUBMITTED: 'tx:submitted',
 	TX_SUCCESS: 'tx:success',
+	TX_STATUS: 'tx:status',
+	TX_PENDING: 'tx:pending',
+	TX_FINALIZED: 'tx:finalized',
+	TX_EXECUTED: 'tx:executed',
+	TX_SEALED: 'tx:sealed',
+	TX_EXPIRED: 'tx:expired',
 	TX_ERROR: 'tx:error',
+	ACCOUNT_CHANGED: 'accountChanged',
+	NETWORK_CHANGED: 'networkChanged',
+	DISCONNECTED: 'disconnected',
+	THEME_CHANGED: 'themeChanged',
 	ERROR: 'error',
 };
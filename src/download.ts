@@ -0,0 +1,72 @@
+import { ERROR_CODES, RIFT_DOWNLOAD_URL, RIFT_PARAM_PREFIX, RIFT_URI_SCHEME } from './constants';
+import { RiftError } from './errors';
+
+/**
+ * Build a smart download link embedding a Rift URI, so the wallet resumes it once installed
+ * The whole URI is encoded, `rift-*` parameters included
+ * @param riftUri The `rift://` URI to resume
+ * @param downloadUrl Download page of the wallet
+ * @returns The download link, e.g. `https://rift.app/download?rift=rift%3A%2F%2F...`
+ */
+export function buildDownloadLink(riftUri: string, downloadUrl: string = RIFT_DOWNLOAD_URL): string {
+	if (!riftUri.startsWith(RIFT_URI_SCHEME)) {
+		throw new RiftError(ERROR_CODES.INVALID_PAYLOAD, `Invalid Rift URI: ${riftUri}`);
+	}
+
+	const url = new URL(downloadUrl);
+	url.searchParams.set('rift', riftUri);
+	return url.href;
+}
+
+/**
+ * Extract the Rift URI embedded in a smart download link
+ * @param link The download link
+ * @returns The Rift URI, or null if the link doesn't embed one
+ */
+export function parseDownloadLink(link: string): string | null {
+	try {
+		const riftUri = new URL(link).searchParams.get('rift');
+		return riftUri && riftUri.startsWith(RIFT_URI_SCHEME) ? riftUri : null;
+	} catch (e) {
+		return null;
+	}
+}
+
+/**
+ * Get the Rift URI of the current frame page, fragment included
+ * The wallet strips the `rift-*` parameters from the frame URL, so the frame passes the ones it wants back
+ * @param riftParams Rift parameters of the URI, with or without the `rift-` prefix, e.g. `{ height: 'tall' }`
+ */
+export function getCurrentRiftUri(riftParams: Record<string, string> = {}): string {
+	const url = new URL(window.location.href);
+
+	Object.entries(riftParams).forEach(([key, value]) => {
+		url.searchParams.set(key.startsWith(RIFT_PARAM_PREFIX) ? key : `${RIFT_PARAM_PREFIX}${key}`, value);
+	});
+
+	return `${RIFT_URI_SCHEME}${url.host}${url.pathname === '/' ? '' : url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * Build the link a frame can show when no wallet answered, resuming the frame once the wallet is installed
+ *
+ * Example usage:
+ * ```ts
+ * try {
+ *   const instance = await rift();
+ * } catch (error) {
+ *   if (isWalletUnavailable(error)) {
+ *     showInstallButton(getResumeLink());
+ *   }
+ * }
+ * ```
+ * @param downloadUrl Download page of the wallet
+ * @param riftParams Rift parameters to resume the frame with, see `getCurrentRiftUri`
+ * @returns The download link for the current page
+ */
+export function getResumeLink(
+	downloadUrl: string = RIFT_DOWNLOAD_URL,
+	riftParams: Record<string, string> = {},
+): string {
+	return buildDownloadLink(getCurrentRiftUri(riftParams), downloadUrl);
+}
@@ -0,0 +1,92 @@
+import { ERROR_CODES } from './constants';
+import { RiftAction } from './rift';
+
+/**
+ * Error codes a Rift error can carry
+ */
+export type RiftErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
+
+/**
+ * Details attached to a Rift error
+ */
+export interface RiftErrorOptions {
+	/** Action of the call that failed */
+	action?: RiftAction;
+	/** ID of the intent message that failed */
+	requestId?: string;
+	/** Underlying error */
+	cause?: unknown;
+}
+
+/**
+ * Map any code to a known error code, unknown ones become `unknown_error`
+ * @param code The code to map
+ * @returns A known error code
+ */
+export function toErrorCode(code: unknown): RiftErrorCode {
+	const codes = Object.values(ERROR_CODES) as string[];
+	return typeof code === 'string' && codes.includes(code) ? (code as RiftErrorCode) : ERROR_CODES.UNKNOWN_ERROR;
+}
+
+/**
+ * Error raised by every failed call to the wallet
+ */
+export class RiftError extends Error {
+	public readonly code: RiftErrorCode;
+	public readonly action?: RiftAction;
+	public readonly requestId?: string;
+	public readonly cause?: unknown;
+
+	constructor(code: RiftErrorCode, message: string, options: RiftErrorOptions = {}) {
+		super(message);
+		this.name = 'RiftError';
+		this.code = code;
+		this.action = options.action;
+		this.requestId = options.requestId;
+		this.cause = options.cause;
+	}
+}
+
+/**
+ * Check whether an error is a Rift error, optionally with a given code
+ * @param error The error to check
+ * @param code The expected error code
+ */
+export function isRiftError(error: unknown, code?: RiftErrorCode): error is RiftError {
+	return error instanceof RiftError && (code === undefined || error.code === code);
+}
+
+/**
+ * Check whether the user rejected the action in the wallet
+ */
+export function isUserRejected(error: unknown): error is RiftError {
+	return isRiftError(error, ERROR_CODES.USER_REJECTED);
+}
+
+/**
+ * Check whether the wallet didn't answer in time
+ */
+export function isTimeout(error: unknown): error is RiftError {
+	return isRiftError(error, ERROR_CODES.TIMEOUT);
+}
+
+/**
+ * Check whether no wallet is available to answer
+ */
+export function isWalletUnavailable(error: unknown): error is RiftError {
+	return isRiftError(error, ERROR_CODES.WALLET_UNAVAILABLE);
+}
+
+/**
+ * Check whether the wallet doesn't support the action
+ */
+export function isNotSupported(error: unknown): error is RiftError {
+	return isRiftError(error, ERROR_CODES.NOT_SUPPORTED);
+}
+
+/**
+ * Check whether the call was aborted by the frame
+ */
+export function isAborted(error: unknown): error is RiftError {
+	return isRiftError(error, ERROR_CODES.ABORTED);
+}
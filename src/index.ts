@@ -1,8 +1,13 @@
 export * from './types';
 export * from './constants';
+export * from './errors';
 export * from './utils';
 export * from './rift';
+export * from './cadence';
 export * from './bridge';
+export * from './transaction';
+export * from './theme';
+export * from './download';
 export * from './events';
 export * from './config';
 
@@ -0,0 +1,211 @@
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { CadenceArgument, encodeArguments } from '../cadence';
+import { ERROR_CODES } from '../constants';
+import { RiftError } from '../errors';
+import { RiftTxStatus } from '../rift';
+import { MutateOptions } from '../types';
+import { normalizeError } from '../utils';
+import { RiftContext, RiftContextValue } from './provider';
+
+/**
+ * Options for useQuery
+ */
+export interface UseQueryOptions {
+	/** Whether to run the query automatically, defaults to true */
+	enabled?: boolean;
+	/** Time to wait for the wallet (ms), defaults to the configured query timeout */
+	timeout?: number;
+}
+
+/**
+ * State returned by useQuery
+ */
+export interface UseQueryResult<T> {
+	data: T | undefined;
+	error: RiftError | null;
+	isLoading: boolean;
+	/** Run the query again, resolves to the new data or undefined if it failed */
+	refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Stages of a transaction submitted through useMutate
+ */
+export type RiftMutateStage = 'idle' | 'submitting' | 'submitted' | 'sealed' | 'error';
+
+/**
+ * State returned by useMutate
+ */
+export interface UseMutateResult {
+	/** Submit a transaction, resolves to its ID or null if it failed */
+	mutate: (options: MutateOptions) => Promise<string | null>;
+	stage: RiftMutateStage;
+	txId: string | null;
+	/** Latest status reported by the wallet for the transaction */
+	txStatus: RiftTxStatus | null;
+	error: RiftError | null;
+	/** Go back to the idle stage */
+	reset: () => void;
+}
+
+/**
+ * Access the Rift provider's state
+ */
+export function useRift(): RiftContextValue {
+	const context = useContext(RiftContext);
+	if (!context) {
+		throw new Error('useRift must be used within a RiftProvider');
+	}
+
+	return context;
+}
+
+/**
+ * Get the connected user's address, null until connected
+ */
+export function useAddress(): string | null {
+	return useRift().address;
+}
+
+/**
+ * Stable key identifying a list of arguments, so that new arrays with the same values don't refetch
+ */
+function getArgumentsKey(args: CadenceArgument[]): string {
+	try {
+		return JSON.stringify(encodeArguments(args));
+	} catch (e) {
+		// Invalid arguments, the query itself reports the error
+		return 'invalid';
+	}
+}
+
+/**
+ * Run a read-only Cadence script once connected, and again whenever the script or its arguments change
+ * @param cadence Cadence script
+ * @param args Arguments built with `arg(value, t.Type)`
+ * @param options Whether to run automatically and timeout
+ */
+export function useQuery<T = any>(
+	cadence: string,
+	args: CadenceArgument[] = [],
+	options: UseQueryOptions = {},
+): UseQueryResult<T> {
+	const { enabled = true, timeout } = options;
+	const { rift, status } = useRift();
+	const [state, setState] = useState<{ data: T | undefined; error: RiftError | null; isLoading: boolean }>({
+		data: undefined,
+		error: null,
+		isLoading: enabled,
+	});
+
+	const argsKey = getArgumentsKey(args);
+	const argsRef = useRef(args);
+	argsRef.current = args;
+	const controllerRef = useRef<AbortController | null>(null);
+
+	const refetch = useCallback(async (): Promise<T | undefined> => {
+		if (!rift) {
+			return undefined;
+		}
+
+		// Only the latest call may update the state
+		controllerRef.current?.abort();
+		const controller = new AbortController();
+		controllerRef.current = controller;
+
+		setState((prev) => ({ ...prev, error: null, isLoading: true }));
+
+		try {
+			const data: T = await rift.query({ cadence, args: argsRef.current, timeout, signal: controller.signal });
+			if (controllerRef.current === controller) {
+				setState({ data, error: null, isLoading: false });
+			}
+			return data;
+		} catch (error) {
+			if (controllerRef.current === controller) {
+				setState((prev) => ({ ...prev, error: normalizeError(error), isLoading: false }));
+			}
+			return undefined;
+		}
+	}, [rift, cadence, argsKey, timeout]);
+
+	useEffect(() => {
+		if (enabled) {
+			refetch();
+		}
+	}, [enabled, refetch]);
+
+	useEffect(() => () => controllerRef.current?.abort(), []);
+
+	// Without an instance nothing runs, the query only waits while the provider is still connecting
+	const isLoading = state.isLoading && (rift !== null || status === 'connecting');
+
+	return { ...state, isLoading, refetch };
+}
+
+/**
+ * Submit transactions and follow their lifecycle until sealed
+ */
+export function useMutate(): UseMutateResult {
+	const { rift } = useRift();
+	const [state, setState] = useState<{
+		stage: RiftMutateStage;
+		txId: string | null;
+		txStatus: RiftTxStatus | null;
+		error: RiftError | null;
+	}>({ stage: 'idle', txId: null, txStatus: null, error: null });
+	const callRef = useRef(0);
+
+	const mutate = useCallback(
+		async (options: MutateOptions): Promise<string | null> => {
+			const call = ++callRef.current;
+
+			if (!rift) {
+				const error = new RiftError(ERROR_CODES.NOT_INITIALIZED, 'Rift is not connected yet', { action: 'mutate' });
+				setState({ stage: 'error', txId: null, txStatus: null, error });
+				return null;
+			}
+
+			setState({ stage: 'submitting', txId: null, txStatus: null, error: null });
+
+			try {
+				const txId = await rift.mutate(options);
+				if (call === callRef.current) {
+					setState((prev) => ({ ...prev, stage: 'submitted', txId }));
+				}
+				return txId;
+			} catch (error) {
+				if (call === callRef.current) {
+					setState((prev) => ({ ...prev, stage: 'error', error: normalizeError(error) }));
+				}
+				return null;
+			}
+		},
+		[rift],
+	);
+
+	useEffect(() => {
+		if (!rift || !state.txId) {
+			return;
+		}
+
+		return rift.tx(state.txId).subscribe((txStatus) => {
+			setState((prev) => {
+				if (txStatus.errorMessage || txStatus.status === 'expired') {
+					const message = txStatus.errorMessage || 'Transaction expired';
+					const error = new RiftError(ERROR_CODES.TRANSACTION_FAILED, message, { action: 'mutate' });
+					return { ...prev, stage: 'error', txStatus, error };
+				}
+
+				return { ...prev, stage: txStatus.status === 'sealed' ? 'sealed' : prev.stage, txStatus };
+			});
+		});
+	}, [rift, state.txId]);
+
+	const reset = useCallback(() => {
+		callRef.current++;
+		setState({ stage: 'idle', txId: null, txStatus: null, error: null });
+	}, []);
+
+	return { ...state, mutate, reset };
+}
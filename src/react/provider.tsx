@@ -0,0 +1,118 @@
+import { createContext, ReactNode, useEffect, useState } from 'react';
+import { isWalletUnavailable, RiftError } from '../errors';
+import { Rift, rift } from '../rift';
+import { normalizeError } from '../utils';
+
+/**
+ * Connection status of the provider
+ */
+export type RiftConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'unavailable' | 'error';
+
+/**
+ * Value shared by the provider with its descendants
+ */
+export interface RiftContextValue {
+	/** Connected Rift instance, null until connected */
+	rift: Rift | null;
+	status: RiftConnectionStatus;
+	/** Connection error, set when status is `unavailable` or `error` */
+	error: RiftError | null;
+	/** Connected user's address */
+	address: string | null;
+	/** Network the wallet is connected to */
+	network: string | null;
+}
+
+/**
+ * Props of the Rift provider
+ */
+export interface RiftProviderProps {
+	children?: ReactNode;
+	/** Time to wait for the wallet handshake (ms), defaults to the configured connect timeout */
+	timeout?: number;
+}
+
+export const RiftContext = createContext<RiftContextValue | null>(null);
+
+const initialValue: RiftContextValue = {
+	rift: null,
+	status: 'connecting',
+	error: null,
+	address: null,
+	network: null,
+};
+
+/**
+ * Connect to the wallet and share the Rift instance with descendant hooks.
+ * The connection is only made on the client, effects don't run during server rendering,
+ * so the provider is safe to render with Next.js.
+ */
+export function RiftProvider({ children, timeout }: RiftProviderProps) {
+	const [value, setValue] = useState<RiftContextValue>(initialValue);
+
+	useEffect(() => {
+		const controller = new AbortController();
+		let active = true;
+		let instance: Rift | null = null;
+
+		// Follow account switches, network switches and reconnections made in the wallet
+		const handleContext = (data: { address: string; network: string }) => {
+			setValue((prev) => ({ ...prev, status: 'connected', address: data.address, network: data.network }));
+		};
+		const handleAccountChanged = (data: { address: string }) => {
+			setValue((prev) => ({ ...prev, address: data.address }));
+		};
+		const handleNetworkChanged = (data: { network: string }) => {
+			setValue((prev) => ({ ...prev, network: data.network }));
+		};
+		const handleDisconnected = () => {
+			setValue((prev) => ({ ...prev, status: 'disconnected', address: null, network: null }));
+		};
+
+		const connect = async () => {
+			try {
+				instance = await rift({ timeout, signal: controller.signal });
+				const address = await instance.getUserAddress();
+
+				if (!active) {
+					return;
+				}
+
+				instance.on('ready', handleContext);
+				instance.on('accountChanged', handleAccountChanged);
+				instance.on('networkChanged', handleNetworkChanged);
+				instance.on('disconnected', handleDisconnected);
+				setValue({ rift: instance, status: 'connected', error: null, address, network: instance.getNetwork() });
+			} catch (error) {
+				// Connected but unusable, e.g. the address request failed
+				instance?.destroy();
+				instance = null;
+
+				if (active) {
+					// No wallet embeds the frame, it can offer the link from `getResumeLink()`
+					const status = isWalletUnavailable(error) ? 'unavailable' : 'error';
+					setValue({ ...initialValue, status, error: normalizeError(error) });
+				}
+			}
+		};
+
+		setValue(initialValue);
+		connect();
+
+		return () => {
+			active = false;
+			controller.abort();
+
+			if (instance) {
+				instance.off('ready', handleContext);
+				instance.off('accountChanged', handleAccountChanged);
+				instance.off('networkChanged', handleNetworkChanged);
+				instance.off('disconnected', handleDisconnected);
+				// Remove the message listener, StrictMode and timeout changes would otherwise leave bridges behind
+				instance.destroy();
+			}
+		};
+	}, [timeout]);
+
+	return <RiftContext.Provider value={value}>{children}</RiftContext.Provider>;
+}
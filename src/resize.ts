@@ -0,0 +1,116 @@
+/**
+ * Get the space below the content of the body: its bottom padding, border and margin
+ */
+function getTrailingSpace(body: HTMLElement): number {
+	const style = window.getComputedStyle(body);
+	return (
+		(parseFloat(style.paddingBottom) || 0) +
+		(parseFloat(style.borderBottomWidth) || 0) +
+		(parseFloat(style.marginBottom) || 0)
+	);
+}
+
+/**
+ * Get the bottom of an element in document coordinates, its bottom margin included
+ */
+function getElementBottom(element: Element): number {
+	const marginBottom = parseFloat(window.getComputedStyle(element).marginBottom) || 0;
+	return element.getBoundingClientRect().bottom + window.scrollY + marginBottom;
+}
+
+/**
+ * Measure the height of the document's content
+ *
+ * The elements of the body are measured rather than the document or the body themselves, which never
+ * shrink below the viewport with the common `html, body { height: 100% }` layout.
+ * Elements sized relative to the viewport, e.g. a `#root { height: 100% }` wrapper, still measure
+ * the viewport: pass the element wrapping the content instead.
+ * Fixed elements and text placed directly in the body are not measured.
+ * @param element Element wrapping the content, measured instead of the elements of the body
+ * @returns The content height (px)
+ */
+export function getContentHeight(element?: HTMLElement): number {
+	const body = document.body;
+
+	if (!body) {
+		return Math.ceil(document.documentElement.getBoundingClientRect().height);
+	}
+
+	let bottom = 0;
+
+	if (element) {
+		bottom = getElementBottom(element);
+	} else {
+		Array.from(body.children).forEach((child) => {
+			const { position, display } = window.getComputedStyle(child);
+			if (position !== 'fixed' && display !== 'none') {
+				bottom = Math.max(bottom, getElementBottom(child));
+			}
+		});
+	}
+
+	return Math.ceil(bottom + getTrailingSpace(body));
+}
+
+/**
+ * Observe the document's content height, see `getContentHeight` for how it is measured
+ * The callback is called with the initial height, then at most once per animation frame when it changes
+ * @param callback Function to call with the content height (px)
+ * @param element Element wrapping the content, measured instead of the elements of the body
+ * @returns Function stopping the observation
+ */
+export function observeContentHeight(callback: (height: number) => void, element?: HTMLElement): () => void {
+	let lastHeight: number | null = null;
+	let frame: number | null = null;
+
+	const report = () => {
+		frame = null;
+		const height = getContentHeight(element);
+
+		if (height !== lastHeight) {
+			lastHeight = height;
+			callback(height);
+		}
+	};
+
+	const schedule = () => {
+		if (frame === null) {
+			frame = window.requestAnimationFrame(report);
+		}
+	};
+
+	// A body sized to the viewport doesn't resize with its content, so its elements are observed as well
+	const observer = new ResizeObserver(schedule);
+	const observeTargets = () => {
+		observer.observe(document.documentElement);
+
+		if (element) {
+			observer.observe(element);
+		} else if (document.body) {
+			observer.observe(document.body);
+			Array.from(document.body.children).forEach((child) => observer.observe(child));
+		}
+	};
+
+	// Elements added to the body are observed too
+	const mutationObserver =
+		!element && document.body
+			? new MutationObserver(() => {
+					observeTargets();
+					schedule();
+				})
+			: null;
+	mutationObserver?.observe(document.body, { childList: true });
+
+	observeTargets();
+	report();
+
+	return () => {
+		observer.disconnect();
+		mutationObserver?.disconnect();
+		if (frame !== null) {
+			window.cancelAnimationFrame(frame);
+			frame = null;
+		}
+	};
+}
@@ -1,15 +1,23 @@
 import { RiftBridge } from './bridge';
-import { EventCallback } from './types';
+import { applyThemeToElement } from './theme';
+import { RiftTransaction } from './transaction';
+import { EventCallback, MutateOptions, QueryOptions, RiftCallOptions } from './types';
 
 /**
  * Intent types sent from iframe to wallet
  */
-export type RiftIntentType = 'rift:handshake' | 'rift:intent';
+export type RiftIntentType = 'rift:handshake' | 'rift:intent' | 'rift:cancel' | 'rift:disconnect' | 'rift:resize';
 
 /**
  * Response types sent from wallet to iframe
  */
-export type RiftResponseType = 'rift:context' | 'rift:mutateResult' | 'rift:queryResult' | 'rift:error';
+export type RiftResponseType =
+	| 'rift:context'
+	| 'rift:mutateResult'
+	| 'rift:queryResult'
+	| 'rift:txStatus'
+	| 'rift:disconnect'
+	| 'rift:error';
 
 /**
  * Intent actions that can be requested
@@ -19,13 +27,62 @@ export type RiftAction = 'getUserAddress' | 'query' | 'mutate';
 /**
  * Event types emitted by the Rift instance
  */
-export type RiftEventType = 'ready' | 'tx:submitted' | 'tx:success' | 'tx:error' | 'error';
+export type RiftEventType =
+	| 'ready'
+	| 'tx:submitted'
+	| 'tx:success'
+	| 'tx:status'
+	| 'tx:pending'
+	| 'tx:finalized'
+	| 'tx:executed'
+	| 'tx:sealed'
+	| 'tx:expired'
+	| 'tx:error'
+	| 'accountChanged'
+	| 'networkChanged'
+	| 'disconnected'
+	| 'themeChanged'
+	| 'error';
+
+/**
+ * Lifecycle stages of a submitted transaction, following Flow's transaction statuses
+ */
+export type RiftTxStatusCode = 'pending' | 'finalized' | 'executed' | 'sealed' | 'expired';
+
+/**
+ * Status of a submitted transaction
+ */
+export interface RiftTxStatus {
+	txId: string;
+	status: RiftTxStatusCode;
+	/** Cadence error message, set when the transaction failed */
+	errorMessage?: string;
+	/** Events emitted by the transaction, once executed */
+	events?: any[];
+}
+
+/**
+ * Color mode of the wallet UI
+ */
+export type RiftColorMode = 'light' | 'dark';
+
+/**
+ * Theme the wallet shares with a frame
+ */
+export interface RiftTheme {
+	/** Accent color from the `rift-color` parameter, as `#rrggbb` */
+	accentColor: string | null;
+	/** Color mode of the wallet UI */
+	mode: RiftColorMode;
+}
 
 /**
  * Base message interface
  */
 export interface RiftMessage {
 	type: RiftIntentType | RiftResponseType;
+	/** Unique message ID, stamped by the sender */
+	id?: string;
 }
 
 /**
@@ -33,6 +90,10 @@ export interface RiftMessage {
  */
 export interface RiftHandshakeMessage extends RiftMessage {
 	type: 'rift:handshake';
+	/** Version of rift-js the frame was built with */
+	riftVersion?: string;
+	/** Actions the frame is able to request */
+	capabilities?: RiftAction[];
 }
 
 /**
@@ -44,6 +105,59 @@ export interface RiftIntentMessage extends RiftMessage {
 	payload: any;
 }
 
+/**
+ * Cancel message for an intent the frame no longer waits for
+ */
+export interface RiftCancelMessage extends RiftMessage {
+	type: 'rift:cancel';
+	/** ID of the intent message being cancelled */
+	requestId: string;
+}
+
+/**
+ * Disconnect message, sent by either side to end the connection
+ */
+export interface RiftDisconnectMessage extends RiftMessage {
+	type: 'rift:disconnect';
+	/** Why the connection ended */
+	reason?: string;
+}
+
+/**
+ * Resize message reporting the frame's content height
+ */
+export interface RiftResizeMessage extends RiftMessage {
+	type: 'rift:resize';
+	/** Content height of the frame's document (px) */
+	height: number;
+}
+
+/**
+ * Payload carried by query and mutate intents
+ */
+export interface RiftIntentPayload {
+	cadence: string;
+	/** Arguments encoded in JSON-Cadence */
+	args: any[];
+	network: string | null;
+	/** Identity of the frame sending the intent, missing for frames built with older versions */
+	rift?: RiftIntentMetadata;
+}
+
+/**
+ * Identity of the frame attached to every query and mutate
+ */
+export interface RiftIntentMetadata {
+	/** ID the wallet assigned to the frame, null until the wallet sends one */
+	frameId: string | null;
+	/** Origin of the frame URL (`location.origin`), e.g. `https://dapp.com`, sandboxed frames included */
+	origin: string;
+	/** Version of rift-js the frame was built with */
+	riftVersion: string;
+	/** Time the intent was sent (seconds since epoch) */
+	timestamp: number;
+}
+
 /**
  * Context message from wallet with user info
  */
@@ -51,6 +165,14 @@ export interface RiftContextMessage extends RiftMessage {
 	type: 'rift:context';
 	address: string;
 	network: string;
+	/** Version of rift-js the wallet was built with */
+	riftVersion?: string;
+	/** Actions the wallet is able to answer */
+	capabilities?: RiftAction[];
+	/** Theme of the frame */
+	theme?: RiftTheme;
+	/** ID the wallet assigned to the frame */
+	frameId?: string;
 }
 
 /**
@@ -60,14 +182,32 @@ export interface RiftResultMessage extends RiftMessage {
 	type: 'rift:mutateResult';
 	status: 'success' | 'error';
 	txId: string;
+	/** ID of the intent message this result answers */
+	requestId?: string;
 }
 
+/**
+ * Encoding of a script result the frame decodes, results without one are passed on as is
+ */
+export type RiftResultEncoding = 'json-cadence';
+
 /**
  * Script result message
  */
 export interface RiftScriptResultMessage extends RiftMessage {
 	type: 'rift:queryResult';
 	result: any;
+	/** Set when the result is a JSON-Cadence value, the frame decodes it into native JS values */
+	encoding?: RiftResultEncoding;
+	/** ID of the intent message this result answers */
+	requestId?: string;
+}
+
+/**
+ * Transaction status update message
+ */
+export interface RiftTxStatusMessage extends RiftMessage, RiftTxStatus {
+	type: 'rift:txStatus';
 }
 
 /**
@@ -77,6 +217,8 @@ export interface RiftErrorMessage extends RiftMessage {
 	type: 'rift:error';
 	code: string;
 	message: string;
+	/** ID of the intent message this error answers */
+	requestId?: string;
 }
 
 /**
@@ -89,6 +231,96 @@ export class Rift {
 		this.bridge = bridge;
 	}
 
+	/**
+	 * Actions the connected wallet is able to answer
+	 */
+	public get capabilities(): RiftAction[] {
+		return this.bridge.getCapabilities();
+	}
+
+	/**
+	 * Version of rift-js the connected wallet was built with, if it reported one
+	 */
+	public get walletVersion(): string | null {
+		return this.bridge.getWalletVersion();
+	}
+
+	/**
+	 * ID the wallet assigned to this frame, attached to every query and mutate
+	 */
+	public get frameId(): string | null {
+		return this.bridge.getFrameId();
+	}
+
+	/**
+	 * Theme shared by the wallet, updated when it changes
+	 */
+	public get theme(): RiftTheme {
+		return this.bridge.getTheme();
+	}
+
+	/**
+	 * Apply the theme as CSS custom properties on an element, and keep them updated when it changes.
+	 * Sets `--rift-accent-color` and `--rift-color-mode`, and the element's `color-scheme`
+	 * @param element Element to style, defaults to the document root
+	 * @returns Function to stop updating the element
+	 */
+	public applyTheme(element: HTMLElement = document.documentElement): () => void {
+		applyThemeToElement(this.theme, element);
+
+		const handler = (theme: RiftTheme) => applyThemeToElement(theme, element);
+		this.bridge.on('themeChanged', handler);
+
+		return () => this.bridge.off('themeChanged', handler);
+	}
+
+	/**
+	 * Check whether the connected wallet supports an action
+	 * @param action The action to check
+	 * @returns Whether the wallet is able to answer the action
+	 */
+	public supports(action: RiftAction): boolean {
+		return this.bridge.supports(action);
+	}
+
+	/**
+	 * Check whether the frame is connected to the wallet
+	 */
+	public isConnected(): boolean {
+		return this.bridge.isConnected();
+	}
+
+	/**
+	 * Get the network the wallet is connected to
+	 * @returns The network (flow-mainnet, flow-testnet, etc.), or null when disconnected
+	 */
+	public getNetwork(): string | null {
+		return this.bridge.getNetwork();
+	}
+
+	/**
+	 * Connect to the wallet again after a disconnect
+	 * @param options Connection timeout and abort signal
+	 */
+	public async connect(options: RiftCallOptions = {}): Promise<void> {
+		return this.bridge.connect(options);
+	}
+
+	/**
+	 * Disconnect from the wallet, pending calls are rejected
+	 */
+	public disconnect(): void {
+		this.bridge.disconnect();
+	}
+
+	/**
+	 * Disconnect and release the instance, e.g. when the component owning it unmounts
+	 * Pending calls are rejected and the message listener is removed, the instance can't connect again
+	 */
+	public destroy(): void {
+		this.bridge.destroy();
+	}
+
 	/**
 	 * Get the user's Flow address
 	 * @returns Promise that resolves to the user's address
@@ -103,7 +335,7 @@ export class Rift {
 	 * @param options Script options with Cadence code and arguments
 	 * @returns Promise that resolves to the result of the script
 	 */
-	public async query(options: { cadence: string; args: any[] }): Promise<any> {
+	public async query(options: QueryOptions): Promise<any> {
 		return this.bridge.query(options);
 	}
 
@@ -113,10 +345,29 @@ export class Rift {
 	 * @param options Transaction options with Cadence code and arguments
 	 * @returns Promise that resolves to the transaction ID
 	 */
-	public async mutate(options: { cadence: string; args: any[] }): Promise<string> {
+	public async mutate(options: MutateOptions): Promise<string> {
 		return this.bridge.mutate(options);
 	}
 
+	/**
+	 * Get a handle on a submitted transaction to follow its status
+	 * @param txId Transaction ID returned by mutate
+	 * @returns Transaction handle with subscribe, onceSealed and async iteration
+	 */
+	public tx(txId: string): RiftTransaction {
+		return new RiftTransaction(this.bridge, txId);
+	}
+
+	/**
+	 * Let the wallet size the frame to its content instead of a fixed height preset
+	 * The content height is reported whenever it changes
+	 * @param element Element wrapping the content, for layouts where the elements of the body fill the viewport
+	 * @returns Function stopping the automatic resizing
+	 */
+	public autoResize(element?: HTMLElement): () => void {
+		return this.bridge.autoResize(element);
+	}
+
 	/**
 	 * Subscribe to an event
 	 * @param event Event type to subscribe to
@@ -138,10 +389,21 @@ export class Rift {
 
 /**
  * Create and connect to a Rift instance
+ * Rejects with `wallet_unavailable` when the frame isn't embedded or no wallet answers the handshake,
+ * frames can then show the link built by `getResumeLink()`
+ * @param options Connection timeout and abort signal
  * @returns Promise that resolves to a connected Rift instance
  */
-export async function rift(): Promise<Rift> {
+export async function rift(options: RiftCallOptions = {}): Promise<Rift> {
 	const bridge = new RiftBridge();
-	await bridge.connect();
+
+	try {
+		await bridge.connect(options);
+	} catch (error) {
+		// Release the listener of a bridge that will never be used
+		bridge.destroy();
+		throw error;
+	}
+
 	return new Rift(bridge);
 }
@@ -0,0 +1,373 @@
+import { ERROR_CODES, RIFT_CAPABILITIES } from '../constants';
+import {
+	RiftAction,
+	RiftCancelMessage,
+	RiftHandshakeMessage,
+	RiftIntentMessage,
+	RiftMessage,
+	RiftResultEncoding,
+	RiftTheme,
+	RiftTxStatusCode,
+} from '../rift';
+import {
+	createContextMessage,
+	createDisconnectMessage,
+	createErrorMessage,
+	createScriptResultMessage,
+	createTransactionResultMessage,
+	createTxStatusMessage,
+} from '../wallet/helpers';
+
+/**
+ * Options for the mock wallet
+ */
+export interface MockWalletOptions {
+	/** Address sent to the frame on handshake */
+	address?: string;
+	/** Network sent to the frame on handshake */
+	network?: string;
+	/** Origin the wallet messages come from */
+	origin?: string;
+	/** Actions advertised to the frame */
+	capabilities?: RiftAction[];
+	/** ID assigned to the frame */
+	frameId?: string;
+	/** Theme sent to the frame, none by default */
+	theme?: Partial<RiftTheme>;
+	/** Whether to answer handshakes, disable to simulate a missing wallet */
+	respondToHandshake?: boolean;
+}
+
+/**
+ * Options for a scripted outcome
+ */
+export interface MockOutcomeOptions {
+	/** Time to wait before answering (ms) */
+	delay?: number;
+	/** Set to 'json-cadence' to send a query result as a raw JSON-Cadence value, decoded by the frame */
+	encoding?: RiftResultEncoding;
+}
+
+/**
+ * A scripted answer to the next query or mutate intent
+ */
+type MockOutcome = MockOutcomeOptions &
+	(
+		| { kind: 'result'; value: any }
+		| { kind: 'error'; code: string; message: string }
+		| { kind: 'failedTransaction'; txId: string }
+		| { kind: 'noReply' }
+	);
+
+/**
+ * Actions whose outcomes can be scripted
+ */
+type ScriptableAction = 'query' | 'mutate';
+
+/**
+ * Fake wallet replacing the parent window of a frame under test.
+ *
+ * It answers handshakes with a configurable address and network, lets tests script the outcome
+ * of each query and mutate, and records every message received from the frame.
+ * Run frame tests in a DOM environment (e.g. jest's `jsdom`).
+ *
+ * Example usage:
+ * ```ts
+ * import { rift } from 'rift-js';
+ * import { MockWallet } from 'rift-js/testing';
+ *
+ * const wallet = new MockWallet({ address: '0x01' }).install();
+ *
+ * wallet.mockQueryResult('Hello');
+ * wallet.mockMutateRejection();
+ *
+ * const instance = await rift();
+ * await expect(instance.query({ cadence, args: [] })).resolves.toBe('Hello');
+ * await expect(instance.mutate({ cadence, args: [] })).rejects.toMatchObject({ code: 'user_rejected' });
+ * expect(wallet.intents).toHaveLength(2);
+ *
+ * wallet.uninstall();
+ * ```
+ */
+export class MockWallet {
+	/** Every intent received from the frame, in order */
+	public readonly intents: RiftIntentMessage[] = [];
+	/** Every handshake received from the frame, in order */
+	public readonly handshakes: RiftHandshakeMessage[] = [];
+	/** IDs of every intent the frame cancelled, in order */
+	public readonly cancellations: string[] = [];
+	/** Number of times the frame disconnected */
+	public disconnects = 0;
+
+	private options: Required<Omit<MockWalletOptions, 'theme'>> & Pick<MockWalletOptions, 'theme'>;
+	private outcomes: Record<ScriptableAction, MockOutcome[]> = { query: [], mutate: [] };
+	private intentWaiters: Array<(intent: RiftIntentMessage) => void> = [];
+	private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+	private originalParent: PropertyDescriptor | undefined;
+	private fakeParent: { postMessage: (message: any, targetOrigin?: string) => void };
+	private txCounter = 0;
+
+	constructor(options: MockWalletOptions = {}) {
+		this.options = {
+			address: '0xf8d6e0586b0a20c7',
+			network: 'flow-testnet',
+			origin: 'https://wallet.test',
+			capabilities: RIFT_CAPABILITIES,
+			respondToHandshake: true,
+			frameId: 'mock-frame',
+			...options,
+		};
+
+		this.fakeParent = {
+			postMessage: (message: any) => this.receive(message),
+		};
+	}
+
+	/**
+	 * Replace `window.parent` with the mock wallet
+	 * @returns The mock wallet, for chaining
+	 */
+	public install(): this {
+		this.originalParent = Object.getOwnPropertyDescriptor(window, 'parent');
+
+		Object.defineProperty(window, 'parent', {
+			configurable: true,
+			get: () => this.fakeParent,
+		});
+
+		return this;
+	}
+
+	/**
+	 * Restore the original `window.parent` and drop pending answers
+	 */
+	public uninstall(): void {
+		this.timers.forEach((timer) => clearTimeout(timer));
+		this.timers.clear();
+
+		if (this.originalParent) {
+			Object.defineProperty(window, 'parent', this.originalParent);
+		} else {
+			delete (window as { parent?: unknown }).parent;
+		}
+	}
+
+	/**
+	 * Clear recorded messages and scripted outcomes
+	 */
+	public reset(): void {
+		this.intents.length = 0;
+		this.handshakes.length = 0;
+		this.cancellations.length = 0;
+		this.disconnects = 0;
+		this.outcomes = { query: [], mutate: [] };
+	}
+
+	/**
+	 * Script the result of the next query, queries without a scripted outcome resolve to null
+	 */
+	public mockQueryResult(result: any, options: MockOutcomeOptions = {}): this {
+		return this.enqueue('query', { kind: 'result', value: result, ...options });
+	}
+
+	/**
+	 * Script the next mutate to succeed, mutates without a scripted outcome succeed with a generated ID
+	 */
+	public mockMutateSuccess(txId: string = this.generateTxId(), options: MockOutcomeOptions = {}): this {
+		return this.enqueue('mutate', { kind: 'result', value: txId, ...options });
+	}
+
+	/**
+	 * Script the next mutate to be rejected by the user
+	 */
+	public mockMutateRejection(message = 'User rejected transaction', options: MockOutcomeOptions = {}): this {
+		return this.mockError('mutate', ERROR_CODES.USER_REJECTED, message, options);
+	}
+
+	/**
+	 * Script the next mutate to be submitted but fail
+	 */
+	public mockMutateFailure(txId: string = this.generateTxId(), options: MockOutcomeOptions = {}): this {
+		return this.enqueue('mutate', { kind: 'failedTransaction', txId, ...options });
+	}
+
+	/**
+	 * Script the next intent of an action to fail with an error
+	 */
+	public mockError(action: ScriptableAction, code: string, message: string, options: MockOutcomeOptions = {}): this {
+		return this.enqueue(action, { kind: 'error', code, message, ...options });
+	}
+
+	/**
+	 * Script the next intent of an action to never be answered, so the frame times out
+	 */
+	public mockTimeout(action: ScriptableAction): this {
+		return this.enqueue(action, { kind: 'noReply' });
+	}
+
+	/**
+	 * Wait for the next intent received from the frame
+	 */
+	public nextIntent(): Promise<RiftIntentMessage> {
+		return new Promise((resolve) => this.intentWaiters.push(resolve));
+	}
+
+	/**
+	 * Switch the account or network and notify the frame
+	 */
+	public setAccount(address: string, network: string = this.options.network): void {
+		this.options.address = address;
+		this.options.network = network;
+		this.sendContext();
+	}
+
+	/**
+	 * Switch the theme and notify the frame
+	 */
+	public setTheme(theme: Partial<RiftTheme>): void {
+		this.options.theme = theme;
+		this.sendContext();
+	}
+
+	/**
+	 * Disconnect the frame, as if the user disconnected it in the wallet
+	 */
+	public disconnect(reason?: string): void {
+		this.send(createDisconnectMessage(reason));
+	}
+
+	/**
+	 * Send a transaction status update to the frame
+	 */
+	public sendTxStatus(
+		txId: string,
+		status: RiftTxStatusCode,
+		details: { errorMessage?: string; events?: any[] } = {},
+	): void {
+		this.send(createTxStatusMessage(txId, status, details));
+	}
+
+	/**
+	 * Deliver a message to the frame as if it came from the wallet
+	 */
+	public send(message: RiftMessage): void {
+		const event = new Event('message');
+
+		Object.defineProperties(event, {
+			data: { value: message },
+			origin: { value: this.options.origin },
+			source: { value: this.fakeParent },
+		});
+
+		window.dispatchEvent(event);
+	}
+
+	/**
+	 * Send the current account, network and theme to the frame
+	 */
+	private sendContext(): void {
+		const { address, network, capabilities, theme, frameId } = this.options;
+		this.send(createContextMessage(address, network, capabilities, theme, frameId));
+	}
+
+	/**
+	 * Handle a message posted by the frame
+	 */
+	private receive(message: any): void {
+		if (!message || typeof message.type !== 'string') {
+			return;
+		}
+
+		switch (message.type) {
+			case 'rift:handshake':
+				this.handshakes.push(message);
+				if (this.options.respondToHandshake) {
+					this.later(0, () => this.sendContext());
+				}
+				break;
+			case 'rift:intent':
+				this.handleIntent(message);
+				break;
+			case 'rift:cancel':
+				this.cancellations.push((message as RiftCancelMessage).requestId);
+				break;
+			case 'rift:disconnect':
+				this.disconnects += 1;
+				break;
+			default:
+				break;
+		}
+	}
+
+	/**
+	 * Record an intent and answer it with the next scripted outcome
+	 */
+	private handleIntent(intent: RiftIntentMessage): void {
+		this.intents.push(intent);
+
+		const waiters = this.intentWaiters;
+		this.intentWaiters = [];
+		waiters.forEach((resolve) => resolve(intent));
+
+		const requestId = intent.id;
+
+		if (intent.action === 'getUserAddress') {
+			this.later(0, () => this.sendContext());
+			return;
+		}
+
+		const action = intent.action as ScriptableAction;
+		const outcome: MockOutcome =
+			this.outcomes[action].shift() ||
+			(action === 'query' ? { kind: 'result', value: null } : { kind: 'result', value: this.generateTxId() });
+
+		if (outcome.kind === 'noReply') {
+			return;
+		}
+
+		this.later(outcome.delay || 0, () => {
+			switch (outcome.kind) {
+				case 'result':
+					this.send(
+						action === 'query'
+							? createScriptResultMessage(outcome.value, requestId, outcome.encoding)
+							: createTransactionResultMessage('success', outcome.value, requestId),
+					);
+					break;
+				case 'failedTransaction':
+					this.send(createTransactionResultMessage('error', outcome.txId, requestId));
+					break;
+				case 'error':
+					this.send(createErrorMessage(outcome.code, outcome.message, requestId));
+					break;
+			}
+		});
+	}
+
+	/**
+	 * Queue a scripted outcome
+	 */
+	private enqueue(action: ScriptableAction, outcome: MockOutcome): this {
+		this.outcomes[action].push(outcome);
+		return this;
+	}
+
+	/**
+	 * Run a callback asynchronously, like a real postMessage delivery
+	 */
+	private later(delay: number, callback: () => void): void {
+		const timer = setTimeout(() => {
+			this.timers.delete(timer);
+			callback();
+		}, delay);
+		this.timers.add(timer);
+	}
+
+	/**
+	 * Generate a fake transaction ID
+	 */
+	private generateTxId(): string {
+		this.txCounter += 1;
+		return this.txCounter.toString(16).padStart(64, '0');
+	}
+}
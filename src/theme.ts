@@ -0,0 +1,38 @@
+import { RiftTheme } from './rift';
+import { normalizeHexColor } from './utils';
+
+/**
+ * Theme used until the wallet shares one
+ */
+export const DEFAULT_THEME: RiftTheme = {
+	accentColor: null,
+	mode: 'light',
+};
+
+/**
+ * Sanitize a theme received from the wallet
+ * @param theme The received theme
+ * @returns A theme with a valid accent color and mode
+ */
+export function normalizeTheme(theme: Partial<RiftTheme> | undefined): RiftTheme {
+	return {
+		accentColor: normalizeHexColor(theme?.accentColor),
+		mode: theme?.mode === 'dark' ? 'dark' : 'light',
+	};
+}
+
+/**
+ * Apply a theme as CSS custom properties on an element
+ * @param theme The theme to apply
+ * @param element The element to style
+ */
+export function applyThemeToElement(theme: RiftTheme, element: HTMLElement): void {
+	if (theme.accentColor) {
+		element.style.setProperty('--rift-accent-color', theme.accentColor);
+	} else {
+		element.style.removeProperty('--rift-accent-color');
+	}
+
+	element.style.setProperty('--rift-color-mode', theme.mode);
+	element.style.colorScheme = theme.mode;
+}
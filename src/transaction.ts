@@ -0,0 +1,142 @@
+import { RiftBridge } from './bridge';
+import { ERROR_CODES } from './constants';
+import { RiftError } from './errors';
+import { RiftTxStatus } from './rift';
+
+/**
+ * Callback receiving transaction status updates
+ */
+export type RiftTxStatusCallback = (status: RiftTxStatus) => void;
+
+/**
+ * Check whether a status is the last one a transaction will go through
+ */
+function isFinalStatus(status: RiftTxStatus): boolean {
+	return status.status === 'sealed' || status.status === 'expired' || !!status.errorMessage;
+}
+
+/**
+ * Handle on a submitted transaction, streaming its status updates from the wallet.
+ *
+ * Example usage:
+ * ```ts
+ * const txId = await instance.mutate({ cadence, args: [] });
+ *
+ * const unsubscribe = instance.tx(txId).subscribe((txStatus) => console.log(txStatus.status));
+ * await instance.tx(txId).onceSealed();
+ *
+ * for await (const txStatus of instance.tx(txId)) {
+ *   console.log(txStatus.status);
+ * }
+ * ```
+ */
+export class RiftTransaction {
+	private bridge: RiftBridge;
+	private txId: string;
+
+	constructor(bridge: RiftBridge, txId: string) {
+		this.bridge = bridge;
+		this.txId = txId;
+	}
+
+	/**
+	 * Get the latest known status of the transaction
+	 */
+	public snapshot(): RiftTxStatus | null {
+		return this.bridge.getTxStatus(this.txId);
+	}
+
+	/**
+	 * Subscribe to status updates, starting with the latest known status
+	 * @param callback Callback function to call with each status update
+	 * @returns Function removing the subscription
+	 */
+	public subscribe(callback: RiftTxStatusCallback): () => void {
+		const handler = (status: RiftTxStatus) => {
+			if (status.txId === this.txId) {
+				callback(status);
+			}
+		};
+
+		this.bridge.on('tx:status', handler);
+
+		const current = this.snapshot();
+		if (current) {
+			callback(current);
+		}
+
+		return () => this.bridge.off('tx:status', handler);
+	}
+
+	/**
+	 * Wait for the transaction to be sealed
+	 * @returns Promise that resolves to the sealed status, or rejects if the transaction fails or expires
+	 */
+	public onceSealed(): Promise<RiftTxStatus> {
+		return new Promise((resolve, reject) => {
+			let unsubscribe: (() => void) | null = null;
+			let settled = false;
+
+			const handler = (status: RiftTxStatus) => {
+				if (settled || !isFinalStatus(status)) {
+					return;
+				}
+
+				settled = true;
+				if (unsubscribe) {
+					unsubscribe();
+				}
+
+				if (status.errorMessage) {
+					reject(new RiftError(ERROR_CODES.TRANSACTION_FAILED, status.errorMessage, { action: 'mutate' }));
+				} else if (status.status === 'expired') {
+					reject(new RiftError(ERROR_CODES.TRANSACTION_FAILED, 'Transaction expired', { action: 'mutate' }));
+				} else {
+					resolve(status);
+				}
+			};
+
+			unsubscribe = this.subscribe(handler);
+
+			// The latest status may already have been final
+			if (settled) {
+				unsubscribe();
+			}
+		});
+	}
+
+	/**
+	 * Iterate over status updates until the transaction is sealed, fails or expires
+	 */
+	public async *[Symbol.asyncIterator](): AsyncIterator<RiftTxStatus> {
+		const queue: RiftTxStatus[] = [];
+		let notify: (() => void) | null = null;
+
+		const unsubscribe = this.subscribe((status) => {
+			queue.push(status);
+			if (notify) {
+				notify();
+				notify = null;
+			}
+		});
+
+		try {
+			while (true) {
+				if (queue.length === 0) {
+					await new Promise<void>((resolve) => {
+						notify = resolve;
+					});
+				}
+
+				const status = queue.shift()!;
+				yield status;
+
+				if (isFinalStatus(status)) {
+					return;
+				}
+			}
+		} finally {
+			unsubscribe();
+		}
+	}
+}
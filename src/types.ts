@@ -1,17 +1,31 @@
+import { CadenceArgument } from './cadence';
+
+/**
+ * Options shared by every call to the wallet
+ */
+export interface RiftCallOptions {
+	/** Time to wait for the wallet in ms, overriding the configured default. 0 waits indefinitely */
+	timeout?: number;
+	/** Signal to abort the call, the wallet is asked to dismiss any pending approval */
+	signal?: AbortSignal;
+}
+
 /**
  * Network-aware query options
  */
-export interface QueryOptions {
+export interface QueryOptions extends RiftCallOptions {
 	cadence: string;
-	args: any[];
+	/** Arguments built with `arg(value, t.Type)` */
+	args: CadenceArgument[];
 }
 
 /**
  * Network-aware mutation options
  */
-export interface MutateOptions {
+export interface MutateOptions extends RiftCallOptions {
 	cadence: string;
-	args: any[];
+	/** Arguments built with `arg(value, t.Type)` */
+	args: CadenceArgument[];
 }
 
 /**
@@ -1,3 +1,13 @@
+import {
+	ERROR_CODES,
+	RIFT_HEIGHT_PRESETS,
+	RIFT_HTTPS_PREFIX,
+	RIFT_PARAM_PREFIX,
+	RIFT_URI_PARAMS,
+	RIFT_URI_SCHEME,
+} from './constants';
+import { RiftError, toErrorCode } from './errors';
+
 /**
  * Check if the current environment is a Rift frame
  * (running in an iframe injected by a wallet)
@@ -27,99 +37,294 @@ export function generateMessageId(): string {
 }
 
 /**
- * Convert an error to a standardized error object
+ * Generate a unique frame ID, a UUID where the browser supports it
+ */
+export function generateFrameId(): string {
+	if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+		return crypto.randomUUID();
+	}
+
+	return `${Date.now().toString(36)}-${generateMessageId()}${generateMessageId()}`;
+}
+
+/**
+ * Convert an error to a Rift error
+ * Errors carrying a known `code` property keep it, others get `unknown_error`
  */
-export function normalizeError(error: unknown): { code: string; message: string } {
+export function normalizeError(error: unknown): RiftError {
+	if (error instanceof RiftError) {
+		return error;
+	}
+
 	if (error instanceof Error) {
-		return {
-			code: 'unknown_error',
-			message: error.message,
-		};
+		return new RiftError(toErrorCode((error as { code?: unknown }).code), error.message, { cause: error });
 	}
 
 	if (typeof error === 'string') {
-		return {
-			code: 'error',
-			message: error,
-		};
+		return new RiftError(ERROR_CODES.UNKNOWN_ERROR, error);
 	}
 
-	return {
-		code: 'unknown_error',
-		message: 'An unknown error occurred',
-	};
+	return new RiftError(ERROR_CODES.UNKNOWN_ERROR, 'An unknown error occurred', { cause: error });
 }
 
 /**
- * Parse a Rift URI into its components
+ * Normalize a hex color to the `#rrggbb` form
+ * Accepts 3 or 6 hex digits, with or without a leading '#'
+ * @returns The normalized color, or null if the value is not a hex color
+ */
+export function normalizeHexColor(value: string | null | undefined): string | null {
+	if (!value) {
+		return null;
+	}
+
+	const match = /^#?([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.exec(value.trim());
+	if (!match) {
+		return null;
+	}
+
+	const hex = match[1].length === 3 ? match[1].replace(/./g, (digit) => digit + digit) : match[1];
+	return `#${hex.toLowerCase()}`;
+}
+
+/**
+ * Components of a Rift URI
  */
-export function parseRiftUri(uri: string): {
+export interface RiftUriParts {
+	/** Host with optional port, e.g. `mydapp.com` or `localhost:3000` */
 	host: string;
+	/** Path starting with '/', empty for the root */
+	path?: string;
+	/** Parameters passed to the frame */
+	appParams?: Record<string, string>;
+	/** Rift parameters, with or without the `rift-` prefix */
+	riftParams?: Record<string, string>;
+	/** Fragment, with or without the leading '#' */
+	fragment?: string;
+}
+
+/**
+ * A parsed Rift URI
+ */
+export interface ParsedRiftUri {
+	/** Normalized host with optional port */
+	host: string;
+	/** Path starting with '/', empty for the root */
 	path: string;
+	/** Query string including the leading '?', empty if there is none */
 	query: string;
+	/** Fragment including the leading '#', empty if there is none */
+	fragment: string;
+	/** Rift parameters, without the `rift-` prefix */
 	riftParams: Record<string, string>;
+	/** Parameters passed to the frame */
 	appParams: Record<string, string>;
-} | null {
-	if (!uri.startsWith('rift://')) {
+}
+
+/**
+ * Codes of the problems found by `validateRiftUri`
+ */
+export type RiftUriErrorCode =
+	| 'invalid_scheme'
+	| 'invalid_host'
+	| 'unknown_rift_param'
+	| 'invalid_height'
+	| 'invalid_color';
+
+/**
+ * A problem found in a Rift URI
+ */
+export interface RiftUriValidationError {
+	code: RiftUriErrorCode;
+	message: string;
+	/** Rift parameter at fault, without the `rift-` prefix */
+	param?: string;
+}
+
+/**
+ * Result of validating a Rift URI
+ */
+export interface RiftUriValidation {
+	valid: boolean;
+	errors: RiftUriValidationError[];
+}
+
+/**
+ * Parse the part after `rift://` with the WHATWG URL parser, as an https URL
+ */
+function toUrl(uri: string): URL | null {
+	if (!uri.startsWith(RIFT_URI_SCHEME)) {
+		return null;
+	}
+
+	try {
+		const url = new URL(`${RIFT_HTTPS_PREFIX}${uri.substring(RIFT_URI_SCHEME.length)}`);
+		return url.hostname ? url : null;
+	} catch (e) {
 		return null;
 	}
+}
+
+/**
+ * Get the host of a URL parsed by `toUrl` with the port as written, the parser drops 443 as the https default
+ */
+function getHost(url: URL, uri: string): string {
+	const authority = uri.substring(RIFT_URI_SCHEME.length).split(/[/?#\\]/)[0];
+	const port = /:(\d+)$/.exec(authority);
+	return port && !url.port ? `${url.host}:${Number(port[1])}` : url.host;
+}
 
-	// Remove the rift:// prefix
-	const withoutPrefix = uri.substring(7);
+/**
+ * Format a parsed URL back to a Rift URI
+ */
+function fromUrl(url: URL, host: string): string {
+	return `${RIFT_URI_SCHEME}${host}${url.pathname === '/' ? '' : url.pathname}${url.search}${url.hash}`;
+}
 
-	// Extract the host
-	const hostEnd = withoutPrefix.indexOf('/');
-	const host = hostEnd === -1 ? withoutPrefix : withoutPrefix.substring(0, hostEnd);
+/**
+ * Find the Rift URIs in a text, matching every URI `buildRiftUri` can produce
+ *
+ * A URI runs until whitespace, a quote or an angle bracket, the characters a serialized URL never contains.
+ * Trailing `.`, `,`, `;`, `:`, `!`, `?` and `'`, and a `)` closing a parenthesis opened before the URI,
+ * end the sentence around it rather than the URI, so URIs ending with them must escape them, e.g. `%2E`.
+ * @param text The text to search
+ * @returns The URIs `parseRiftUri` accepts, with their position in the text
+ */
+export function findRiftUris(text: string): Array<{ uri: string; startIndex: number; endIndex: number }> {
+	const matches: Array<{ uri: string; startIndex: number; endIndex: number }> = [];
+	const pattern = new RegExp(`${RIFT_URI_SCHEME}[^\\s"<>]+`, 'g');
 
-	// Extract the path and query
-	let path = '';
-	let query = '';
+	let match;
+	while ((match = pattern.exec(text)) !== null) {
+		let uri = match[0];
 
-	if (hostEnd === -1) {
-		path = '';
+		while (/[.,;:!?')]$/.test(uri)) {
+			const opened = (uri.match(/\(/g) || []).length;
+			const closed = (uri.match(/\)/g) || []).length;
 
-		// Check if there's a query in the host portion
-		const queryIndex = host.indexOf('?');
-		if (queryIndex !== -1) {
-			query = host.substring(queryIndex);
+			// Keep a parenthesis closing one opened in the URI, e.g. in a Wikipedia-style path
+			if (uri.endsWith(')') && opened >= closed) {
+				break;
+			}
+			uri = uri.slice(0, -1);
 		}
-	} else {
-		const pathAndQuery = withoutPrefix.substring(hostEnd);
-		const queryStart = pathAndQuery.indexOf('?');
 
-		if (queryStart === -1) {
-			path = pathAndQuery;
-			query = '';
-		} else {
-			path = pathAndQuery.substring(0, queryStart);
-			query = pathAndQuery.substring(queryStart);
+		if (parseRiftUri(uri)) {
+			matches.push({ uri, startIndex: match.index, endIndex: match.index + uri.length });
 		}
 	}
 
-	// Extract and separate rift-specific parameters from application parameters
+	return matches;
+}
+
+/**
+ * Build a Rift URI from its components
+ * @param parts Host, path, parameters and fragment
+ * @returns The Rift URI, e.g. `rift://mydapp.com/mint?id=1&rift-height=tall`
+ */
+export function buildRiftUri(parts: RiftUriParts): string {
+	const url = toUrl(`${RIFT_URI_SCHEME}${parts.host}`);
+
+	// The host must not carry a path, query, fragment or credentials of its own
+	if (!url || url.pathname !== '/' || url.search || url.hash || url.username || url.password) {
+		throw new RiftError(ERROR_CODES.INVALID_PAYLOAD, `Invalid Rift URI host: ${parts.host}`);
+	}
+
+	if (parts.path) {
+		url.pathname = parts.path;
+	}
+
+	Object.entries(parts.appParams || {}).forEach(([key, value]) => url.searchParams.append(key, value));
+	Object.entries(parts.riftParams || {}).forEach(([key, value]) => {
+		url.searchParams.append(key.startsWith(RIFT_PARAM_PREFIX) ? key : `${RIFT_PARAM_PREFIX}${key}`, value);
+	});
+
+	if (parts.fragment) {
+		url.hash = parts.fragment;
+	}
+
+	return fromUrl(url, getHost(url, `${RIFT_URI_SCHEME}${parts.host}`));
+}
+
+/**
+ * Parse a Rift URI into its components
+ * @param uri The Rift URI
+ * @returns The components, or null if the URI can't be parsed
+ */
+export function parseRiftUri(uri: string): ParsedRiftUri | null {
+	const url = toUrl(uri);
+	if (!url) {
+		return null;
+	}
+
+	// Separate rift-specific parameters from application parameters
 	const riftParams: Record<string, string> = {};
 	const appParams: Record<string, string> = {};
 
-	if (query && query.length > 1) {
-		// Remove the leading '?' character
-		const queryString = query.substring(1);
-		const searchParams = new URLSearchParams(queryString);
-
-		searchParams.forEach((value, key) => {
-			if (key.startsWith('rift-')) {
-				const riftKey = key.substring(5); // Remove 'rift-' prefix
-				riftParams[riftKey] = value;
-			} else {
-				appParams[key] = value;
-			}
-		});
-	}
+	url.searchParams.forEach((value, key) => {
+		if (key.startsWith(RIFT_PARAM_PREFIX)) {
+			riftParams[key.substring(RIFT_PARAM_PREFIX.length)] = value;
+		} else {
+			appParams[key] = value;
+		}
+	});
 
 	return {
-		host,
-		path,
-		query,
+		host: getHost(url, uri),
+		path: url.pathname === '/' ? '' : url.pathname,
+		query: url.search,
+		fragment: url.hash,
 		riftParams,
 		appParams,
 	};
 }
+
+/**
+ * Check a Rift URI strictly, reporting every problem found
+ * @param uri The Rift URI
+ * @returns Whether the URI is valid and its problems
+ */
+export function validateRiftUri(uri: string): RiftUriValidation {
+	const errors: RiftUriValidationError[] = [];
+
+	if (!uri.startsWith(RIFT_URI_SCHEME)) {
+		errors.push({ code: 'invalid_scheme', message: `Rift URIs start with ${RIFT_URI_SCHEME}` });
+		return { valid: false, errors };
+	}
+
+	const url = toUrl(uri);
+	if (!url || url.username || url.password || !isValidHostname(url.hostname)) {
+		errors.push({ code: 'invalid_host', message: 'The host is not a valid domain name or IP address' });
+		return { valid: false, errors };
+	}
+
+	const parsed = parseRiftUri(uri)!;
+
+	Object.entries(parsed.riftParams).forEach(([param, value]) => {
+		if (!(RIFT_URI_PARAMS as readonly string[]).includes(param)) {
+			errors.push({ code: 'unknown_rift_param', message: `Unknown Rift parameter: rift-${param}`, param });
+		} else if (param === 'height' && !(RIFT_HEIGHT_PRESETS as readonly string[]).includes(value)) {
+			errors.push({
+				code: 'invalid_height',
+				message: `rift-height must be one of ${RIFT_HEIGHT_PRESETS.join(', ')}`,
+				param,
+			});
+		} else if (param === 'color' && !normalizeHexColor(value)) {
+			errors.push({ code: 'invalid_color', message: 'rift-color must be a hex color', param });
+		}
+	});
+
+	return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Check whether a hostname normalized by the URL parser is a domain name or IP address
+ */
+function isValidHostname(hostname: string): boolean {
+	// IPv6 addresses are kept in brackets, IPv4 addresses are normalized to dotted decimal
+	if (hostname.startsWith('[')) {
+		return true;
+	}
+
+	const label = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+	return hostname.split('.').every((part) => label.test(part));
+}
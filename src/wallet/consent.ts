@@ -0,0 +1,107 @@
+/**
+ * Storage remembering the hosts the user always allows, their frames load without the click-to-load card.
+ * Implement it directly to persist the choice elsewhere, e.g. in the wallet settings.
+ */
+export interface RiftConsentStorage {
+	/**
+	 * Check whether the user always allows a host
+	 * @param host Lowercase hostname of the frame, without port
+	 */
+	isAllowed(host: string): Promise<boolean>;
+	/**
+	 * Always allow a host
+	 * @param host Lowercase hostname of the frame, without port
+	 */
+	allow(host: string): Promise<void>;
+	/**
+	 * Forget a host, its frames show the card again
+	 * @param host Lowercase hostname of the frame, without port
+	 */
+	revoke(host: string): Promise<void>;
+	/**
+	 * Get the hosts always allowed, e.g. to list them in the wallet settings
+	 */
+	getAllowedHosts(): Promise<string[]>;
+}
+
+/**
+ * Storage kept in memory, the choices are forgotten on reload
+ */
+export class MemoryConsentStorage implements RiftConsentStorage {
+	private hosts: Set<string> = new Set();
+
+	public async isAllowed(host: string): Promise<boolean> {
+		return this.hosts.has(host.toLowerCase());
+	}
+
+	public async allow(host: string): Promise<void> {
+		this.hosts.add(host.toLowerCase());
+	}
+
+	public async revoke(host: string): Promise<void> {
+		this.hosts.delete(host.toLowerCase());
+	}
+
+	public async getAllowedHosts(): Promise<string[]> {
+		return Array.from(this.hosts);
+	}
+}
+
+/**
+ * Storage persisting the hosts as a JSON array in `localStorage`, or any other Web Storage
+ *
+ * Example usage:
+ * ```ts
+ * const injector = new IframeInjector({
+ *   clickToLoad: true,
+ *   consentStorage: new WebConsentStorage(),
+ * });
+ * ```
+ */
+export class WebConsentStorage implements RiftConsentStorage {
+	private key: string;
+	private storage: Storage;
+
+	constructor(key: string = 'rift:allowed-hosts', storage: Storage = window.localStorage) {
+		this.key = key;
+		this.storage = storage;
+	}
+
+	public async isAllowed(host: string): Promise<boolean> {
+		return this.read().includes(host.toLowerCase());
+	}
+
+	public async allow(host: string): Promise<void> {
+		const hosts = this.read();
+		const normalizedHost = host.toLowerCase();
+
+		if (!hosts.includes(normalizedHost)) {
+			this.write([...hosts, normalizedHost]);
+		}
+	}
+
+	public async revoke(host: string): Promise<void> {
+		const normalizedHost = host.toLowerCase();
+		this.write(this.read().filter((item) => item !== normalizedHost));
+	}
+
+	public async getAllowedHosts(): Promise<string[]> {
+		return this.read();
+	}
+
+	/**
+	 * Read the stored hosts, a missing or corrupted entry counts as empty
+	 */
+	private read(): string[] {
+		try {
+			const data = JSON.parse(this.storage.getItem(this.key) || '[]');
+			return Array.isArray(data) ? data.filter((item): item is string => typeof item === 'string') : [];
+		} catch (e) {
+			return [];
+		}
+	}
+
+	private write(hosts: string[]): void {
+		this.storage.setItem(this.key, JSON.stringify(hosts));
+	}
+}
@@ -0,0 +1,206 @@
+/**
+ * A parsed Content Security Policy, mapping lowercase directive names to their sources
+ */
+export type RiftCspPolicy = Record<string, string[]>;
+
+/**
+ * A directive allowing more than the recommended baseline
+ */
+export interface RiftCspWeakDirective {
+	/** Directive name, e.g. `script-src` */
+	directive: string;
+	/** Sources of the directive, empty if it is missing */
+	sources: string[];
+	/** Why the directive is weaker than the baseline */
+	reason: string;
+}
+
+/**
+ * Result of evaluating the policies of a frame
+ */
+export interface RiftCspEvaluation {
+	/** Whether the frame satisfies the recommended baseline and may show the "Secured" badge */
+	secured: boolean;
+	/** Enforced policies found */
+	policies: RiftCspPolicy[];
+	/** Directives weaker than the baseline */
+	weakDirectives: RiftCspWeakDirective[];
+}
+
+/**
+ * Policy recommended to frames: `default-src 'self'; script-src 'self'`
+ */
+export const RECOMMENDED_CSP = "default-src 'self'; script-src 'self'";
+
+/**
+ * Directives falling back to `default-src` when missing
+ */
+const FETCH_DIRECTIVES = [
+	'child-src',
+	'connect-src',
+	'font-src',
+	'frame-src',
+	'img-src',
+	'manifest-src',
+	'media-src',
+	'object-src',
+	'prefetch-src',
+	'script-src',
+	'script-src-elem',
+	'script-src-attr',
+	'style-src',
+	'style-src-elem',
+	'style-src-attr',
+	'worker-src',
+];
+
+/**
+ * Parse a Content Security Policy, a header with several comma-separated policies yields one per policy
+ * Only the first occurrence of a directive counts, like in browsers
+ * @param value Header or meta tag value
+ * @returns The parsed policies
+ */
+export function parseCsp(value: string): RiftCspPolicy[] {
+	return value
+		.split(',')
+		.map((policy) => {
+			const directives: RiftCspPolicy = {};
+
+			policy.split(';').forEach((directive) => {
+				const [name, ...sources] = directive.trim().split(/\s+/);
+				const key = name?.toLowerCase();
+
+				if (key && !(key in directives)) {
+					directives[key] = sources;
+				}
+			});
+
+			return directives;
+		})
+		.filter((policy) => Object.keys(policy).length > 0);
+}
+
+/**
+ * Get the enforced policies from response headers, report-only policies are ignored
+ * @param headers Fetch headers or a plain object of headers
+ */
+export function getCspFromHeaders(headers: Headers | Record<string, string | string[] | undefined>): RiftCspPolicy[] {
+	let value: string | string[] | null | undefined;
+
+	if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+		value = headers.get('content-security-policy');
+	} else {
+		const key = Object.keys(headers).find((name) => name.toLowerCase() === 'content-security-policy');
+		value = key ? (headers as Record<string, string | string[] | undefined>)[key] : undefined;
+	}
+
+	if (!value) {
+		return [];
+	}
+
+	return (Array.isArray(value) ? value : [value]).flatMap(parseCsp);
+}
+
+/**
+ * Get the policies declared with `<meta http-equiv="Content-Security-Policy">` tags
+ * @param source The fetched HTML or a parsed document
+ */
+export function getCspFromDocument(source: string | Document): RiftCspPolicy[] {
+	const doc = typeof source === 'string' ? new DOMParser().parseFromString(source, 'text/html') : source;
+
+	return Array.from(doc.querySelectorAll('meta[http-equiv]'))
+		.filter((meta) => meta.getAttribute('http-equiv')?.toLowerCase() === 'content-security-policy')
+		.flatMap((meta) => parseCsp(meta.getAttribute('content') || ''));
+}
+
+/**
+ * Check whether a source restricts loading at least as much as `'self'`
+ */
+function isStrictSource(source: string): boolean {
+	const value = source.toLowerCase();
+
+	return (
+		value === "'self'" ||
+		value === "'none'" ||
+		value === "'report-sample'" ||
+		/^'nonce-[^']+'$/.test(value) ||
+		/^'sha(256|384|512)-[^']+'$/.test(value)
+	);
+}
+
+/**
+ * Describe why sources are weaker than `'self'`, or null if they aren't
+ */
+function getWeakness(sources: string[]): string | null {
+	const weakSources = sources.filter((source) => !isStrictSource(source));
+	return weakSources.length > 0 ? `Allows ${weakSources.join(' ')}` : null;
+}
+
+/**
+ * Find the directives of a policy weaker than the baseline
+ */
+function getWeakDirectives(policy: RiftCspPolicy): RiftCspWeakDirective[] {
+	const weakDirectives: RiftCspWeakDirective[] = [];
+	const defaultSources = policy['default-src'];
+
+	if (!defaultSources) {
+		weakDirectives.push({ directive: 'default-src', sources: [], reason: 'Missing' });
+	} else {
+		const reason = getWeakness(defaultSources);
+		if (reason) {
+			weakDirectives.push({ directive: 'default-src', sources: defaultSources, reason });
+		}
+	}
+
+	// Scripts fall back to default-src, so only a missing pair leaves them unrestricted
+	if (!policy['script-src'] && !defaultSources) {
+		weakDirectives.push({ directive: 'script-src', sources: [], reason: 'Missing' });
+	}
+
+	FETCH_DIRECTIVES.forEach((directive) => {
+		const sources = policy[directive];
+		const reason = sources && getWeakness(sources);
+
+		if (sources && reason) {
+			weakDirectives.push({ directive, sources, reason });
+		}
+	});
+
+	return weakDirectives;
+}
+
+/**
+ * Evaluate the policies of a frame against the recommended baseline
+ *
+ * Every enforced policy applies, so the frame is secured if at least one of them satisfies the baseline.
+ * The weak directives reported are those of the strictest policy.
+ *
+ * Example usage:
+ * ```ts
+ * const response = await fetch(frameUrl);
+ * const html = await response.text();
+ * const { secured, weakDirectives } = evaluateCsp([...getCspFromHeaders(response.headers), ...getCspFromDocument(html)]);
+ * ```
+ * @param policies Policies from `parseCsp`, `getCspFromHeaders` or `getCspFromDocument`, or raw policy strings
+ * @returns Whether the frame is secured and its weak directives
+ */
+export function evaluateCsp(policies: Array<RiftCspPolicy | string>): RiftCspEvaluation {
+	const parsedPolicies = policies.flatMap((policy) => (typeof policy === 'string' ? parseCsp(policy) : [policy]));
+
+	if (parsedPolicies.length === 0) {
+		return {
+			secured: false,
+			policies: [],
+			weakDirectives: [
+				{ directive: 'default-src', sources: [], reason: 'Missing' },
+				{ directive: 'script-src', sources: [], reason: 'Missing' },
+			],
+		};
+	}
+
+	const weakDirectives = parsedPolicies
+		.map(getWeakDirectives)
+		.reduce((strictest, current) => (current.length < strictest.length ? current : strictest));
+
+	return { secured: weakDirectives.length === 0, policies: parsedPolicies, weakDirectives };
+}
@@ -1,5 +1,5 @@
 import { RIFT_URI_SCHEME } from '../constants';
-import { parseRiftUri } from '../utils';
+import { findRiftUris, parseRiftUri } from '../utils';
 import { getProtocolPrefix } from './helpers';
 
 /**
@@ -13,8 +13,77 @@ export interface RiftDetectorOptions {
 	rootElement?: HTMLElement;
 	/** Throttle text scanning to reduce performance impact (ms) */
 	scanThrottle?: number;
+	/** Time a scan may take before yielding to the page until the next idle period (ms), defaults to 8 */
+	scanBudget?: number;
+	/** Function to call when a Rift URI is found in an element attribute, e.g. the href of a link */
+	onRiftElementFound?: (element: Element, riftUrl: string, attribute: string) => void;
+	/** Scan the href of links, defaults to true */
+	scanLinks?: boolean;
+	/** Attributes scanned on every element, e.g. `['data-url', 'title']` */
+	scanAttributes?: string[];
+	/** Traverse open shadow roots of web components, defaults to true */
+	scanShadowRoots?: boolean;
+	/** Selectors of elements whose content and attributes are never scanned, defaults to `DEFAULT_SKIP_SELECTORS` */
+	skipSelectors?: string[];
 }
 
+/**
+ * Elements the detector skips by default: code, form fields and editors the user may be typing in
+ */
+export const DEFAULT_SKIP_SELECTORS = [
+	'script',
+	'style',
+	'noscript',
+	'textarea',
+	'input',
+	'code',
+	'pre',
+	'[contenteditable]:not([contenteditable="false"])',
+];
+
+/**
+ * Cost of the scans made by a detector
+ */
+export interface RiftDetectorStats {
+	/** Completed scans, each covering the changes batched during the throttle */
+	scans: number;
+	/** Idle time slices used by the scans */
+	slices: number;
+	/** Elements and text nodes visited */
+	nodesVisited: number;
+	/** URIs reported, in text and attributes */
+	urisFound: number;
+	/** Time spent scanning (ms) */
+	totalTime: number;
+	/** Time spent on the last completed scan, over all its slices (ms) */
+	lastScanTime: number;
+	/** Subtrees waiting to be scanned */
+	pendingRoots: number;
+}
+
+/**
+ * Stats of a detector that hasn't scanned yet
+ */
+function createEmptyStats(): RiftDetectorStats {
+	return { scans: 0, slices: 0, nodesVisited: 0, urisFound: 0, totalTime: 0, lastScanTime: 0, pendingRoots: 0 };
+}
+
+/**
+ * Run a callback when the browser is idle, falling back to a timeout where `requestIdleCallback` is missing
+ */
+function requestIdle(callback: (deadline?: IdleDeadline) => void): void {
+	if (typeof window.requestIdleCallback === 'function') {
+		window.requestIdleCallback(callback, { timeout: 1000 });
+	} else {
+		window.setTimeout(() => callback(), 0);
+	}
+}
+
+/**
+ * Selector of links pointing to a Rift URI
+ */
+const RIFT_LINK_SELECTOR = 'a[href^="rift://"]';
+
 /**
  * Default conversion function to transform rift:// URLs to https:// or http:// (for local development) ones
  */
@@ -43,19 +112,12 @@ export function convertRiftUrl(url: string): string {
 		cleanUrl += `?${searchParams.toString()}`;
 	}
 
-	return cleanUrl;
+	return `${cleanUrl}${parsed.fragment}`;
 }
 
 /**
- * Regular expression to find rift:// URIs in text
- * Matches rift:// followed by domain, optional path, and all query parameters including rift-specific ones
- * The global flag ensures we find all instances in a text block
- */
-const RIFT_URI_REGEX =
-	/(rift:\/\/[a-zA-Z0-9][-a-zA-Z0-9.]*[a-zA-Z0-9](?::\d+)?(?:\/[-a-zA-Z0-9()@:%_\+.~#?&//=]*)?(?:\?[-a-zA-Z0-9()@:%_\+.~#?&//=]*)?)/g;
-
-/**
- * Detector class for finding Rift protocol URIs in a webpage in text nodes.
+ * Detector class for finding Rift protocol URIs in a webpage in text nodes, link hrefs and selected attributes,
+ * including inside open shadow roots. Code, form fields and editors are skipped.
  * The detector can find multiple Rift URIs even when they appear in the same text node,
  * whether they're on the same line or separated by newlines.
  *
@@ -84,11 +146,23 @@ export class RiftDetector {
 	private observer: MutationObserver | null = null;
 	private scanTimeout: number | null = null;
 	private pendingScan = false;
+	private observedRoots: WeakSet<ShadowRoot> = new WeakSet();
+	private undefinedHosts: Map<string, Element[]> = new Map();
+	private processedNodes: WeakSet<Node> = new WeakSet();
+	private pendingRoots: Set<Node> = new Set();
+	private currentWalker: TreeWalker | null = null;
+	private currentScanTime = 0;
+	private stats: RiftDetectorStats = createEmptyStats();
 
 	constructor(options: RiftDetectorOptions = {}) {
 		this.options = {
 			rootElement: document.body,
 			scanThrottle: 500, // Default throttle of 500ms
+			scanBudget: 8,
+			scanLinks: true,
+			scanAttributes: [],
+			scanShadowRoots: true,
+			skipSelectors: DEFAULT_SKIP_SELECTORS,
 			...options,
 		};
 	}
@@ -97,35 +171,80 @@ export class RiftDetector {
 	 * Start scanning for Rift URIs
 	 */
 	public start(): void {
-		// Initial scan
-		this.scanForRiftUris();
-
-		// Setup observer for DOM changes
+		// Setup observer for DOM changes, shadow roots are observed as the scans find them
 		this.observer = new MutationObserver((mutations) => {
-			let shouldScan = false;
+			this.queueMutations(mutations);
 
-			for (const mutation of mutations) {
-				if (mutation.type === 'childList' && mutation.addedNodes.length > 0) {
-					shouldScan = true;
-					break;
-				} else if (mutation.type === 'characterData') {
-					shouldScan = true;
-					break;
-				}
-			}
-
-			if (shouldScan && !this.pendingScan) {
+			if (this.pendingRoots.size > 0 && !this.pendingScan) {
 				this.scheduleScan();
 			}
 		});
 
-		this.observer.observe(this.options.rootElement || document.body, {
+		const rootElement = this.options.rootElement || document.body;
+		this.observeRoot(rootElement);
+
+		// Initial scan
+		this.pendingRoots.add(rootElement);
+		this.runScan();
+	}
+
+	/**
+	 * Get the cost of the scans made so far
+	 */
+	public getStats(): RiftDetectorStats {
+		return { ...this.stats, pendingRoots: this.pendingRoots.size + (this.currentWalker ? 1 : 0) };
+	}
+
+	/**
+	 * Queue the subtrees added or changed by mutations
+	 * Changed text and attributes are scanned again, already processed nodes are skipped
+	 */
+	private queueMutations(mutations: MutationRecord[]): void {
+		for (const mutation of mutations) {
+			if (mutation.type === 'childList') {
+				mutation.addedNodes.forEach((node) => this.pendingRoots.add(node));
+			} else if (mutation.type === 'characterData' || mutation.type === 'attributes') {
+				this.processedNodes.delete(mutation.target);
+				this.pendingRoots.add(mutation.target);
+			}
+		}
+	}
+
+	/**
+	 * Watch a root for changes, including the scanned attributes
+	 */
+	private observeRoot(root: Node): void {
+		if (!this.observer) {
+			return;
+		}
+
+		const attributeFilter = this.getScannedAttributes();
+
+		this.observer.observe(root, {
 			childList: true,
 			subtree: true,
 			characterData: true,
+			attributes: attributeFilter.length > 0,
+			...(attributeFilter.length > 0 ? { attributeFilter } : {}),
 		});
 	}
 
+	/**
+	 * Get the attributes scanned for element matches
+	 */
+	private getScannedAttributes(): string[] {
+		if (!this.options.onRiftElementFound) {
+			return [];
+		}
+
+		const attributes = [...(this.options.scanAttributes || [])];
+		if (this.options.scanLinks && !attributes.includes('href')) {
+			attributes.push('href');
+		}
+
+		return attributes;
+	}
+
 	/**
 	 * Schedule a throttled scan to avoid performance issues
 	 */
@@ -136,164 +255,290 @@ export class RiftDetector {
 
 		this.pendingScan = true;
 		this.scanTimeout = window.setTimeout(() => {
-			this.scanForRiftUris();
-			this.pendingScan = false;
 			this.scanTimeout = null;
+			this.runScan();
 		}, this.options.scanThrottle);
 	}
 
 	/**
-	 * Stop scanning for Rift URIs
+	 * Scan the queued subtrees in idle time slices until none is left
 	 */
-	public stop(): void {
-		if (this.observer) {
-			this.observer.disconnect();
-			this.observer = null;
-		}
+	private runScan(): void {
+		this.pendingScan = true;
+		this.currentScanTime = 0;
+
+		const runSlice = (deadline?: IdleDeadline) => {
+			const start = performance.now();
+			const budget = this.options.scanBudget || 0;
+			const hasTimeLeft = () =>
+				deadline && !deadline.didTimeout
+					? deadline.timeRemaining() > 0 && performance.now() - start < budget
+					: performance.now() - start < budget;
+
+			const done = this.scanQueued(hasTimeLeft);
+			const elapsed = performance.now() - start;
+
+			this.stats.slices += 1;
+			this.stats.totalTime += elapsed;
+			this.currentScanTime += elapsed;
+
+			if (done) {
+				this.stats.scans += 1;
+				this.stats.lastScanTime = this.currentScanTime;
+				this.pendingScan = false;
+				return;
+			}
 
-		if (this.scanTimeout !== null) {
-			window.clearTimeout(this.scanTimeout);
-			this.scanTimeout = null;
-			this.pendingScan = false;
-		}
+			requestIdle(runSlice);
+		};
+
+		requestIdle(runSlice);
 	}
 
 	/**
-	 * Scan the document for Rift URIs using TreeWalker for efficiency
-	 * This scans text nodes only
+	 * Walk the queued subtrees while time is left
+	 * @returns Whether every queued subtree was scanned
 	 */
-	private scanForRiftUris(): void {
-		if (!this.options.onRiftUriFound) return;
+	private scanQueued(hasTimeLeft: () => boolean): boolean {
+		do {
+			if (!this.currentWalker) {
+				const root = this.nextRoot();
+				if (!root) {
+					return true;
+				}
+
+				this.currentWalker = this.createWalker(root);
+				this.visit(root);
+			}
+
+			const node = this.currentWalker.nextNode();
+			if (node) {
+				this.visit(node);
+			} else {
+				this.currentWalker = null;
+			}
+		} while (hasTimeLeft());
 
-		// Scan text nodes
-		this.scanTextNodes();
+		return this.pendingRoots.size === 0 && this.currentWalker === null;
 	}
 
 	/**
-	 * Scan for Rift URIs in text nodes
+	 * Take the next queued subtree still in the document and outside the skip-list
 	 */
-	private scanTextNodes(): void {
-		if (!this.options.onRiftUriFound) return;
+	private nextRoot(): Node | null {
+		for (const root of this.pendingRoots) {
+			this.pendingRoots.delete(root);
 
-		const rootElement = this.options.rootElement || document.body;
+			const parent = root instanceof Element ? root : root.parentElement;
+			if (!root.isConnected || (parent && this.isSkipped(parent))) {
+				continue;
+			}
 
-		// Collect all text nodes first before processing
-		const textNodesToProcess: Text[] = [];
-		const treeWalker = document.createTreeWalker(rootElement, NodeFilter.SHOW_TEXT, {
-			acceptNode: (node) => {
-				// Skip text nodes that are in script, style
-				const parent = node.parentElement;
-				if (!parent) return NodeFilter.FILTER_REJECT;
+			return root;
+		}
 
-				if (parent.tagName === 'SCRIPT' || parent.tagName === 'STYLE') {
-					return NodeFilter.FILTER_REJECT;
-				}
+		return null;
+	}
 
-				// Only accept nodes that might contain our URIs
-				return node.textContent && node.textContent.includes('rift://')
-					? NodeFilter.FILTER_ACCEPT
-					: NodeFilter.FILTER_REJECT;
-			},
+	/**
+	 * Create a walker over the elements and text nodes of a subtree, rejecting skipped elements with their content
+	 */
+	private createWalker(root: Node): TreeWalker {
+		const skipSelector = (this.options.skipSelectors || []).join(',');
+
+		return document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+			acceptNode: (node) =>
+				skipSelector && node instanceof Element && node.matches(skipSelector)
+					? NodeFilter.FILTER_REJECT
+					: NodeFilter.FILTER_ACCEPT,
 		});
+	}
 
-		// First collect all text nodes with rift URIs
-		let textNode: Text | null;
-		while ((textNode = treeWalker.nextNode() as Text | null)) {
-			textNodesToProcess.push(textNode);
+	/**
+	 * Process a node found by the walker, once
+	 */
+	private visit(node: Node): void {
+		this.stats.nodesVisited += 1;
+
+		if (node instanceof Element && this.options.scanShadowRoots) {
+			if (node.shadowRoot) {
+				this.queueShadowRoot(node.shadowRoot);
+			} else {
+				this.watchUpgrade(node);
+			}
 		}
 
-		// Now, for each text node, find all rift URIs and process them
-		// We do this for the entire node at once before moving to the next node
-		for (const node of textNodesToProcess) {
-			// Skip nodes that might have been removed from the DOM
-			if (!node.parentNode) continue;
-
-			// Make a copy of the text content to work with, since the original text node
-			// might be modified during processing
-			const text = node.textContent || '';
-
-			// Collect all matches from the text before we start modifying the DOM
-			const matches: Array<{ uri: string; startIndex: number; endIndex: number }> = [];
-
-			let match;
-			RIFT_URI_REGEX.lastIndex = 0;
-			while ((match = RIFT_URI_REGEX.exec(text)) !== null) {
-				matches.push({
-					uri: match[0],
-					startIndex: match.index,
-					endIndex: match.index + match[0].length,
-				});
-			}
+		if (this.processedNodes.has(node)) {
+			return;
+		}
+		this.processedNodes.add(node);
 
-			// Process matches in reverse order (from end to start)
-			// This way, the indices remain valid even after DOM modifications
-			for (let i = matches.length - 1; i >= 0; i--) {
-				const { uri, startIndex, endIndex } = matches[i];
+		if (node.nodeType === Node.TEXT_NODE) {
+			this.scanTextNode(node as Text);
+		} else if (node instanceof Element) {
+			this.scanElement(node);
+		}
 
-				try {
-					// Create range for this match
-					const range = document.createRange();
-					range.setStart(node, startIndex);
-					range.setEnd(node, endIndex);
-
-					// Notify handler
-					this.options.onRiftUriFound!(node, uri, range);
-
-					// If we've processed a URI and the DOM has changed, we might need
-					// to get a reference to the current node again
-					if (!node.parentNode) {
-						console.log('Text node was removed from DOM during processing, stopping this node');
-						break;
-					}
-				} catch (error) {
-					console.error('Error processing Rift URI:', error);
-					console.log('Problematic URI:', uri, 'at indices', startIndex, endIndex);
-					console.log('Node text length:', (node.textContent || '').length);
-					// Continue with other matches
+		// Nodes added by the callbacks, e.g. the container wrapping a URI, are not scanned again,
+		// the other changes are queued like those the observer reports
+		const mutations = this.observer?.takeRecords() || [];
+		mutations.forEach((mutation) => mutation.addedNodes.forEach((added) => this.markProcessed(added)));
+		this.queueMutations(mutations);
+	}
+
+	/**
+	 * Mark a subtree as processed
+	 */
+	private markProcessed(root: Node): void {
+		this.processedNodes.add(root);
+
+		const treeWalker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT);
+		let node: Node | null;
+		while ((node = treeWalker.nextNode())) {
+			this.processedNodes.add(node);
+		}
+	}
+
+	/**
+	 * Observe and queue a shadow root the first time it is found
+	 */
+	private queueShadowRoot(shadowRoot: ShadowRoot): void {
+		if (this.observedRoots.has(shadowRoot)) {
+			return;
+		}
+
+		this.observedRoots.add(shadowRoot);
+		this.observeRoot(shadowRoot);
+		this.pendingRoots.add(shadowRoot);
+	}
+
+	/**
+	 * Watch a custom element that isn't defined yet, it may attach a shadow root when it upgrades,
+	 * which no mutation reports
+	 */
+	private watchUpgrade(element: Element): void {
+		const name = element.localName;
+
+		if (!name.includes('-') || typeof customElements === 'undefined' || customElements.get(name)) {
+			return;
+		}
+
+		const hosts = this.undefinedHosts.get(name);
+		if (hosts) {
+			hosts.push(element);
+			return;
+		}
+
+		this.undefinedHosts.set(name, [element]);
+
+		customElements.whenDefined(name).then(() => {
+			const upgradedHosts = this.undefinedHosts.get(name) || [];
+			this.undefinedHosts.delete(name);
+
+			if (!this.observer) {
+				return;
+			}
+
+			upgradedHosts.forEach((host) => {
+				if (host.shadowRoot) {
+					this.queueShadowRoot(host.shadowRoot);
 				}
+			});
+
+			if (this.pendingRoots.size > 0 && !this.pendingScan) {
+				this.scheduleScan();
 			}
+		});
+	}
+
+	/**
+	 * Stop scanning for Rift URIs
+	 */
+	public stop(): void {
+		if (this.observer) {
+			this.observer.disconnect();
+			this.observer = null;
+			this.observedRoots = new WeakSet();
 		}
+
+		if (this.scanTimeout !== null) {
+			window.clearTimeout(this.scanTimeout);
+			this.scanTimeout = null;
+		}
+
+		this.pendingScan = false;
+		this.pendingRoots.clear();
+		this.undefinedHosts.clear();
+		this.currentWalker = null;
 	}
 
 	/**
-	 * Reset the detector's state, including processed nodes cache
+	 * Check whether an element is, or is inside, an element of the skip-list
 	 */
-	public reset(): void {
-		this.stop();
+	private isSkipped(element: Element): boolean {
+		const selectors = this.options.skipSelectors || [];
+		return selectors.length > 0 && element.closest(selectors.join(',')) !== null;
 	}
 
 	/**
-	 * Manually scan a specific text node for Rift URIs
-	 * @param textNode The text node to scan
-	 * @returns Array of found Rift URIs
+	 * Scan the scanned attributes of an element for Rift URIs, e.g. the href of a link
 	 */
-	public scanNode(textNode: Text): string[] {
-		if (!this.options.onRiftUriFound || !textNode.textContent) {
-			return [];
-		}
+	private scanElement(element: Element): void {
+		const onRiftElementFound = this.options.onRiftElementFound;
+		const attributes = this.getScannedAttributes();
+		if (!onRiftElementFound || attributes.length === 0) return;
 
-		const foundUris: string[] = [];
+		// Only links are scanned for href, unless it is explicitly listed
+		const linksOnly = !this.options.scanAttributes?.includes('href');
 
-		// Skip nodes that might have been removed from the DOM
-		if (!textNode.parentNode) return foundUris;
+		attributes.forEach((attribute) => {
+			if (attribute === 'href' && linksOnly && !element.matches(RIFT_LINK_SELECTOR)) {
+				return;
+			}
 
-		// Make a copy of the text content to work with
-		const text = textNode.textContent;
+			const value = element.getAttribute(attribute);
+			if (!value || !value.includes('rift://')) return;
 
-		// Collect all matches from the text before we start modifying the DOM
-		const matches: Array<{ uri: string; startIndex: number; endIndex: number }> = [];
-
-		let match;
-		RIFT_URI_REGEX.lastIndex = 0;
-		while ((match = RIFT_URI_REGEX.exec(text)) !== null) {
-			matches.push({
-				uri: match[0],
-				startIndex: match.index,
-				endIndex: match.index + match[0].length,
+			findRiftUris(value).forEach(({ uri }) => {
+				this.stats.urisFound += 1;
+
+				try {
+					onRiftElementFound(element, uri, attribute);
+				} catch (error) {
+					console.error('Error processing Rift URI in element:', error);
+				}
 			});
-			foundUris.push(match[0]);
+		});
+	}
+
+	/**
+	 * Scan a text node for Rift URIs
+	 */
+	private scanTextNode(node: Text): void {
+		if (!this.options.onRiftUriFound || !node.textContent || !node.textContent.includes('rift://')) return;
+
+		// Text of Rift links is reported with the link itself
+		const parent = node.parentElement;
+		if (parent && this.options.onRiftElementFound && this.options.scanLinks && parent.closest(RIFT_LINK_SELECTOR)) {
+			return;
 		}
 
+		this.processTextNode(node);
+	}
+
+	/**
+	 * Report the Rift URIs of a text node
+	 * @returns The URIs found
+	 */
+	private processTextNode(node: Text): string[] {
+		// Make a copy of the text content to work with, since the original text node
+		// might be modified during processing
+		const text = node.textContent || '';
+
+		// Collect all matches from the text before we start modifying the DOM
+		const matches = findRiftUris(text);
+		this.stats.urisFound += matches.length;
+
 		// Process matches in reverse order (from end to start)
 		// This way, the indices remain valid even after DOM modifications
 		for (let i = matches.length - 1; i >= 0; i--) {
@@ -302,24 +547,52 @@ export class RiftDetector {
 			try {
 				// Create range for this match
 				const range = document.createRange();
-				range.setStart(textNode, startIndex);
-				range.setEnd(textNode, endIndex);
+				range.setStart(node, startIndex);
+				range.setEnd(node, endIndex);
 
 				// Notify handler
-				this.options.onRiftUriFound(textNode, uri, range);
+				this.options.onRiftUriFound!(node, uri, range);
 
 				// If we've processed a URI and the DOM has changed, we might need
 				// to get a reference to the current node again
-				if (!textNode.parentNode) {
-					console.log('Text node was removed from DOM during processing, stopping');
+				if (!node.parentNode) {
+					console.log('Text node was removed from DOM during processing, stopping this node');
 					break;
 				}
 			} catch (error) {
-				console.error('Error processing Rift URI in scanNode:', error);
+				console.error('Error processing Rift URI:', error);
+				console.log('Problematic URI:', uri, 'at indices', startIndex, endIndex);
+				console.log('Node text length:', (node.textContent || '').length);
 				// Continue with other matches
 			}
 		}
 
-		return foundUris;
+		return matches.map(({ uri }) => uri);
+	}
+
+	/**
+	 * Reset the detector's state, including processed nodes cache and stats
+	 */
+	public reset(): void {
+		this.stop();
+		this.processedNodes = new WeakSet();
+		this.stats = createEmptyStats();
+	}
+
+	/**
+	 * Manually scan a specific text node for Rift URIs
+	 * @param textNode The text node to scan
+	 * @returns Array of found Rift URIs
+	 */
+	public scanNode(textNode: Text): string[] {
+		if (!this.options.onRiftUriFound || !textNode.textContent) {
+			return [];
+		}
+
+		// Skip nodes that might have been removed from the DOM
+		if (!textNode.parentNode) return [];
+
+		this.processedNodes.add(textNode);
+		return this.processTextNode(textNode);
 	}
 }
@@ -1,6 +1,20 @@
-import { RiftContextMessage, RiftErrorMessage, RiftResultMessage, RiftScriptResultMessage } from '../rift';
-import { RIFT_HTTPS_PREFIX, RIFT_HTTP_PREFIX } from '../constants';
+import {
+	RiftAction,
+	RiftContextMessage,
+	RiftDisconnectMessage,
+	RiftErrorMessage,
+	RiftIntentPayload,
+	RiftResultEncoding,
+	RiftResultMessage,
+	RiftScriptResultMessage,
+	RiftTheme,
+	RiftTxStatusCode,
+	RiftTxStatusMessage,
+} from '../rift';
+import { RIFT_CAPABILITIES, RIFT_HTTPS_PREFIX, RIFT_HTTP_PREFIX, RIFT_VERSION } from '../constants';
 import { getConfig } from '../config';
+import { normalizeTheme } from '../theme';
+import { generateFrameId } from '../utils';
 
 /**
  * Get the appropriate protocol prefix (http:// or https://) based on configuration
@@ -14,56 +28,236 @@ export function getProtocolPrefix(host: string): string {
 	return useHttp ? RIFT_HTTP_PREFIX : RIFT_HTTPS_PREFIX;
 }
 
+/**
+ * Check whether a frame runs in an opaque origin (sandboxed without `allow-same-origin`)
+ * @param frame The iframe to check
+ * @returns Whether the frame's origin is opaque
+ */
+export function hasOpaqueOrigin(frame: HTMLIFrameElement): boolean {
+	return frame.getAttribute('sandbox') !== null && !frame.sandbox.contains('allow-same-origin');
+}
+
+/**
+ * Get the origin of a frame's URL, the origin of its page even when sandboxed
+ * @param frame The iframe to check
+ * @returns The origin, or null if the frame URL can't be parsed
+ */
+export function getFrameUrlOrigin(frame: HTMLIFrameElement): string | null {
+	try {
+		return new URL(frame.src).origin;
+	} catch (e) {
+		return null;
+	}
+}
+
+/**
+ * Get the origin messages from a frame are expected to come from
+ * Frames with an opaque origin report 'null' as their origin
+ * @param frame The iframe to check
+ * @returns The expected origin, or null if the frame URL can't be parsed
+ */
+export function getExpectedFrameOrigin(frame: HTMLIFrameElement): string | null {
+	if (hasOpaqueOrigin(frame)) {
+		return 'null';
+	}
+
+	return getFrameUrlOrigin(frame);
+}
+
+/**
+ * Get the target origin to use when posting to a frame
+ * Frames with an opaque origin can only be addressed with '*', their window reference is what scopes delivery
+ * @param frame The iframe to post to
+ * @returns The target origin for postMessage
+ */
+export function getFrameTargetOrigin(frame: HTMLIFrameElement): string {
+	if (hasOpaqueOrigin(frame)) {
+		return '*';
+	}
+
+	return getExpectedFrameOrigin(frame) || '*';
+}
+
+/**
+ * Check whether a message event was sent by a given frame
+ * Both the source window and the origin have to match
+ * @param event The received message event
+ * @param frame The iframe expected to have sent it
+ * @returns Whether the message comes from the frame
+ */
+export function isMessageFromFrame(event: MessageEvent, frame: HTMLIFrameElement): boolean {
+	if (!event.source || event.source !== frame.contentWindow) {
+		return false;
+	}
+
+	return event.origin === getExpectedFrameOrigin(frame);
+}
+
+/**
+ * Get the ID assigned to a frame, assigning a new one if it has none
+ * The ID is kept in the frame's `data-rift-frame-id` attribute
+ * @param frame The iframe
+ * @returns The frame ID
+ */
+export function getFrameId(frame: HTMLIFrameElement): string {
+	let frameId = frame.getAttribute('data-rift-frame-id');
+
+	if (!frameId) {
+		frameId = generateFrameId();
+		frame.setAttribute('data-rift-frame-id', frameId);
+	}
+
+	return frameId;
+}
+
+/**
+ * Check whether the identity an intent claims matches the frame that sent it
+ * Intents of frames built with older versions carry no identity and are accepted
+ * @param payload The payload of the intent
+ * @param frame The iframe that sent the intent
+ * @returns Whether the claimed frame ID and origin match the frame
+ */
+export function isIntentFromFrame(payload: RiftIntentPayload, frame: HTMLIFrameElement): boolean {
+	const metadata = payload.rift;
+
+	if (!metadata) {
+		return true;
+	}
+
+	// The sender is already proven by the message source, the claimed origin is that of the frame URL
+	if (metadata.origin !== getFrameUrlOrigin(frame)) {
+		return false;
+	}
+
+	// Frames send a null ID until they receive their context
+	return metadata.frameId === null || metadata.frameId === getFrameId(frame);
+}
+
 /**
  * Helper to create a context message
  * @param address User's Flow address
  * @param network Current network (flow-mainnet, flow-testnet, etc.)
+ * @param capabilities Actions the wallet is able to answer
+ * @param theme Accent color and color mode of the frame
+ * @param frameId ID assigned to the frame, see `getFrameId`
  * @returns Context message that can be sent to a Rift frame
  */
-export function createContextMessage(address: string, network: string): RiftContextMessage {
-	return {
+export function createContextMessage(
+	address: string,
+	network: string,
+	capabilities: RiftAction[] = RIFT_CAPABILITIES,
+	theme?: Partial<RiftTheme>,
+	frameId?: string,
+): RiftContextMessage {
+	const message: RiftContextMessage = {
 		type: 'rift:context',
 		address,
 		network,
+		riftVersion: RIFT_VERSION,
+		capabilities: [...capabilities],
 	};
+
+	if (theme) {
+		message.theme = normalizeTheme(theme);
+	}
+
+	if (frameId) {
+		message.frameId = frameId;
+	}
+
+	return message;
 }
 
 /**
  * Helper to create an error message
  * @param code Error code
  * @param message Error message
+ * @param requestId ID of the intent message being answered
  * @returns Error message that can be sent to a Rift frame
  */
-export function createErrorMessage(code: string, message: string): RiftErrorMessage {
+export function createErrorMessage(code: string, message: string, requestId?: string): RiftErrorMessage {
 	return {
 		type: 'rift:error',
 		code,
 		message,
+		requestId,
 	};
 }
 
 /**
  * Helper to create a script result message
  * @param result Script execution result
+ * @param requestId ID of the intent message being answered
+ * @param encoding Set to 'json-cadence' when the result is a raw JSON-Cadence value for the frame to decode
  * @returns Script result message that can be sent to a Rift frame
  */
-export function createScriptResultMessage(result: any): RiftScriptResultMessage {
-	return {
+export function createScriptResultMessage(
+	result: any,
+	requestId?: string,
+	encoding?: RiftResultEncoding,
+): RiftScriptResultMessage {
+	const message: RiftScriptResultMessage = {
 		type: 'rift:queryResult',
 		result,
+		requestId,
 	};
+
+	if (encoding) {
+		message.encoding = encoding;
+	}
+
+	return message;
 }
 
 /**
  * Helper to create a transaction result message
  * @param status Transaction status
  * @param txId Transaction ID
+ * @param requestId ID of the intent message being answered
  * @returns Transaction result message that can be sent to a Rift frame
  */
-export function createTransactionResultMessage(status: 'success' | 'error', txId: string): RiftResultMessage {
+export function createTransactionResultMessage(
+	status: 'success' | 'error',
+	txId: string,
+	requestId?: string,
+): RiftResultMessage {
 	return {
 		type: 'rift:mutateResult',
 		status,
 		txId,
+		requestId,
+	};
+}
+
+/**
+ * Helper to create a transaction status message
+ * @param txId Transaction ID
+ * @param status Current transaction status
+ * @param details Cadence error message and events of the transaction, if any
+ * @returns Transaction status message that can be sent to a Rift frame
+ */
+export function createTxStatusMessage(
+	txId: string,
+	status: RiftTxStatusCode,
+	details: { errorMessage?: string; events?: any[] } = {},
+): RiftTxStatusMessage {
+	return {
+		type: 'rift:txStatus',
+		txId,
+		status,
+		errorMessage: details.errorMessage,
+		events: details.events,
+	};
+}
+
+/**
+ * Helper to create a disconnect message
+ * @param reason Why the wallet ends the connection
+ * @returns Disconnect message that can be sent to a Rift frame
+ */
+export function createDisconnectMessage(reason?: string): RiftDisconnectMessage {
+	return {
+		type: 'rift:disconnect',
+		reason,
 	};
 }
@@ -0,0 +1,426 @@
+import { ERROR_CODES, RIFT_CAPABILITIES } from '../constants';
+import {
+	RiftAction,
+	RiftCancelMessage,
+	RiftContextMessage,
+	RiftHandshakeMessage,
+	RiftIntentMessage,
+	RiftIntentPayload,
+	RiftMessage,
+	RiftResultEncoding,
+	RiftTheme,
+} from '../rift';
+import { normalizeError } from '../utils';
+import {
+	createContextMessage,
+	createDisconnectMessage,
+	createErrorMessage,
+	createScriptResultMessage,
+	createTransactionResultMessage,
+	getFrameId,
+	getFrameTargetOrigin,
+	isIntentFromFrame,
+	isMessageFromFrame,
+} from './helpers';
+
+/**
+ * User context the wallet shares with a Rift frame
+ */
+export interface RiftHostContext {
+	address: string;
+	network: string;
+	/** Theme of the frame, the accent color defaults to the frame's `rift-color` parameter */
+	theme?: Partial<RiftTheme>;
+}
+
+/**
+ * Async handlers the wallet plugs into the host to answer frame intents
+ */
+export interface RiftHostHandlers {
+	/** Resolve the address, network and theme sent to a frame on handshake */
+	getContext: (frame: HTMLIFrameElement) => Promise<RiftHostContext>;
+	/** Resolve the user's address for a `getUserAddress` intent, defaults to `getContext` */
+	getUserAddress?: (frame: HTMLIFrameElement) => Promise<string>;
+	/** Execute a read-only Cadence script and resolve its result, the signal aborts when the frame cancels */
+	query: (payload: RiftIntentPayload, frame: HTMLIFrameElement, signal: AbortSignal) => Promise<any>;
+	/** Sign and submit a transaction and resolve its transaction ID, the signal aborts when the frame cancels */
+	mutate: (payload: RiftIntentPayload, frame: HTMLIFrameElement, signal: AbortSignal) => Promise<string>;
+}
+
+/**
+ * Options for the Rift host
+ */
+export interface RiftHostOptions {
+	/** Handlers answering frame intents */
+	handlers: RiftHostHandlers;
+	/** Actions advertised to frames and answered, defaults to all actions of this SDK version */
+	capabilities?: RiftAction[];
+	/** Set to 'json-cadence' when the query handler resolves raw JSON-Cadence values, frames then decode them */
+	queryResultEncoding?: RiftResultEncoding;
+	/** Function to call when a frame completes the handshake */
+	onHandshake?: (frame: HTMLIFrameElement, context: RiftHostContext, handshake: RiftHandshakeMessage) => void;
+	/** Function to call when a frame sends an intent, before it is dispatched */
+	onIntent?: (frame: HTMLIFrameElement, intent: RiftIntentMessage) => void;
+	/** Function to call when a frame cancels an intent, e.g. to dismiss its approval dialog */
+	onCancel?: (frame: HTMLIFrameElement, requestId: string) => void;
+	/** Function to call when a frame disconnects */
+	onDisconnect?: (frame: HTMLIFrameElement) => void;
+}
+
+/**
+ * An intent being answered, which the frame may cancel
+ */
+interface ActiveIntent {
+	frame: HTMLIFrameElement;
+	controller: AbortController;
+}
+
+/**
+ * Check whether a message is a well-formed intent
+ * @param data The received message data
+ * @returns Whether the data is a valid intent message
+ */
+export function isValidIntentMessage(data: any): data is RiftIntentMessage {
+	if (!data || data.type !== 'rift:intent' || typeof data.action !== 'string') {
+		return false;
+	}
+
+	if (data.action === 'query' || data.action === 'mutate') {
+		const payload = data.payload;
+		return !!payload && typeof payload.cadence === 'string' && Array.isArray(payload.args);
+	}
+
+	return true;
+}
+
+/**
+ * Wallet-side host answering the handshake and intents of injected Rift frames.
+ *
+ * Example usage with injector:
+ * ```ts
+ * const host = new RiftHost({
+ *   handlers: {
+ *     getContext: async () => ({ address: '0x1234567890abcdef', network: 'flow-testnet' }),
+ *     query: async (payload) => executeScript(payload),
+ *     mutate: async (payload) => submitTransaction(payload),
+ *   },
+ * });
+ *
+ * const injector = new IframeInjector({
+ *   onIframeInjected: (iframe) => host.attach(iframe),
+ *   onIframeRemoved: (iframe) => host.detach(iframe),
+ * });
+ * ```
+ */
+export class RiftHost {
+	private options: RiftHostOptions;
+	private frames: Set<HTMLIFrameElement> = new Set();
+	private activeIntents: Map<string, ActiveIntent> = new Map();
+	// Frames whose handshake is being answered, their repeated handshakes are ignored meanwhile
+	private handshakingFrames: Set<HTMLIFrameElement> = new Set();
+	// Frames that received a context, sent again when their accent color changes
+	private connectedFrames: Set<HTMLIFrameElement> = new Set();
+	private colorObserver: MutationObserver;
+	private messageListener: (event: MessageEvent) => void;
+
+	constructor(options: RiftHostOptions) {
+		this.options = {
+			capabilities: RIFT_CAPABILITIES,
+			...options,
+		};
+
+		this.messageListener = (event: MessageEvent) => this.handleMessage(event);
+		window.addEventListener('message', this.messageListener);
+
+		// The injector sets the accent color once the frame metadata resolves, possibly after the handshake
+		this.colorObserver = new MutationObserver((mutations) => {
+			new Set(mutations.map(({ target }) => target as HTMLIFrameElement)).forEach((frame) => {
+				if (this.connectedFrames.has(frame)) {
+					this.refreshFrameContext(frame);
+				}
+			});
+		});
+	}
+
+	/**
+	 * Start answering messages from an iframe
+	 * @param frame The injected iframe
+	 */
+	public attach(frame: HTMLIFrameElement): void {
+		this.frames.add(frame);
+		this.colorObserver.observe(frame, { attributes: true, attributeFilter: ['data-rift-color'] });
+	}
+
+	/**
+	 * Stop answering messages from an iframe
+	 * @param frame The injected iframe
+	 */
+	public detach(frame: HTMLIFrameElement): void {
+		this.frames.delete(frame);
+		this.connectedFrames.delete(frame);
+		this.abortIntents(frame);
+	}
+
+	/**
+	 * Get all currently attached iframes
+	 */
+	public getFrames(): HTMLIFrameElement[] {
+		return Array.from(this.frames);
+	}
+
+	/**
+	 * Detach all iframes and remove the message listener
+	 */
+	public destroy(): void {
+		this.activeIntents.forEach((intent) => intent.controller.abort());
+		this.activeIntents.clear();
+		this.handshakingFrames.clear();
+		this.connectedFrames.clear();
+		this.frames.clear();
+		this.colorObserver.disconnect();
+		window.removeEventListener('message', this.messageListener);
+	}
+
+	/**
+	 * Post a message to a frame
+	 * @param frame The iframe to post to
+	 * @param message The message to send
+	 */
+	public postToFrame(frame: HTMLIFrameElement, message: RiftMessage): void {
+		if (!frame.contentWindow) {
+			console.warn('Cannot post to a Rift frame without a content window');
+			return;
+		}
+
+		frame.contentWindow.postMessage(message, getFrameTargetOrigin(frame));
+	}
+
+	/**
+	 * Post a message to every attached frame, e.g. a new context after an account or network switch
+	 * @param message The message to send
+	 */
+	public broadcast(message: RiftMessage): void {
+		this.frames.forEach((frame) => this.postToFrame(frame, message));
+	}
+
+	/**
+	 * Send a fresh context to every attached frame, e.g. after an account, network or color mode switch
+	 */
+	public async refreshContext(): Promise<void> {
+		await Promise.all(Array.from(this.frames).map((frame) => this.refreshFrameContext(frame)));
+	}
+
+	/**
+	 * Send a fresh context to a frame
+	 * @param frame The attached iframe
+	 */
+	public async refreshFrameContext(frame: HTMLIFrameElement): Promise<void> {
+		try {
+			const context = await this.options.handlers.getContext(frame);
+			this.postToFrame(frame, this.createContext(frame, context));
+		} catch (error) {
+			console.warn('Failed to refresh Rift frame context:', error);
+		}
+	}
+
+	/**
+	 * Disconnect a frame, its pending intents are aborted
+	 * @param frame The iframe to disconnect
+	 * @param reason Why the wallet ends the connection
+	 */
+	public disconnectFrame(frame: HTMLIFrameElement, reason?: string): void {
+		this.abortIntents(frame);
+		this.connectedFrames.delete(frame);
+		this.postToFrame(frame, createDisconnectMessage(reason));
+	}
+
+	/**
+	 * Route a window message to the attached frame that sent it
+	 */
+	private handleMessage(event: MessageEvent): void {
+		const data = event.data;
+
+		if (!data || typeof data.type !== 'string' || !data.type.startsWith('rift:')) {
+			return;
+		}
+
+		const frame = this.findFrame(event);
+		if (!frame) {
+			return;
+		}
+
+		switch (data.type) {
+			case 'rift:handshake':
+				this.handleHandshake(frame, data as RiftHandshakeMessage);
+				break;
+			case 'rift:intent':
+				this.handleIntent(frame, data);
+				break;
+			case 'rift:cancel':
+				this.handleCancel(frame, data as RiftCancelMessage);
+				break;
+			case 'rift:disconnect':
+				this.abortIntents(frame);
+				this.connectedFrames.delete(frame);
+				if (this.options.onDisconnect) {
+					this.options.onDisconnect(frame);
+				}
+				break;
+			default:
+				break;
+		}
+	}
+
+	/**
+	 * Find the attached frame that sent a message, checking both its window and origin
+	 */
+	private findFrame(event: MessageEvent): HTMLIFrameElement | undefined {
+		return Array.from(this.frames).find((frame) => isMessageFromFrame(event, frame));
+	}
+
+	/**
+	 * Answer a handshake with the user context
+	 * Frames repeat their handshake until answered, so a slow `getContext` (e.g. a locked wallet) runs once
+	 */
+	private async handleHandshake(frame: HTMLIFrameElement, handshake: RiftHandshakeMessage): Promise<void> {
+		if (this.handshakingFrames.has(frame)) {
+			return;
+		}
+
+		this.handshakingFrames.add(frame);
+		try {
+			const context = await this.options.handlers.getContext(frame);
+			this.postToFrame(frame, this.createContext(frame, context));
+			if (this.frames.has(frame)) {
+				this.connectedFrames.add(frame);
+			}
+
+			if (this.options.onHandshake) {
+				this.options.onHandshake(frame, context, handshake);
+			}
+		} catch (error) {
+			const normalizedError = normalizeError(error);
+			this.postToFrame(frame, createErrorMessage(ERROR_CODES.WALLET_UNAVAILABLE, normalizedError.message));
+		} finally {
+			this.handshakingFrames.delete(frame);
+		}
+	}
+
+	/**
+	 * Build the context message of a frame, falling back to the accent color set by the injector
+	 */
+	private createContext(frame: HTMLIFrameElement, context: RiftHostContext): RiftContextMessage {
+		const theme: Partial<RiftTheme> = {
+			accentColor: frame.getAttribute('data-rift-color'),
+			...context.theme,
+		};
+
+		return createContextMessage(context.address, context.network, this.options.capabilities, theme, getFrameId(frame));
+	}
+
+	/**
+	 * Abort every intent a frame is waiting for
+	 */
+	private abortIntents(frame: HTMLIFrameElement): void {
+		this.activeIntents.forEach((intent, requestId) => {
+			if (intent.frame === frame) {
+				intent.controller.abort();
+				this.activeIntents.delete(requestId);
+			}
+		});
+	}
+
+	/**
+	 * Abort an intent the frame no longer waits for
+	 */
+	private handleCancel(frame: HTMLIFrameElement, message: RiftCancelMessage): void {
+		const intent = this.activeIntents.get(message.requestId);
+
+		// Frames can only cancel their own intents
+		if (!intent || intent.frame !== frame) {
+			return;
+		}
+
+		this.activeIntents.delete(message.requestId);
+		intent.controller.abort();
+
+		if (this.options.onCancel) {
+			this.options.onCancel(frame, message.requestId);
+		}
+	}
+
+	/**
+	 * Validate an intent and dispatch it to the matching handler
+	 */
+	private async handleIntent(frame: HTMLIFrameElement, data: any): Promise<void> {
+		const requestId = typeof data.id === 'string' ? data.id : undefined;
+
+		if (!isValidIntentMessage(data)) {
+			this.postToFrame(frame, createErrorMessage(ERROR_CODES.INVALID_PAYLOAD, 'Malformed intent message', requestId));
+			return;
+		}
+
+		if (data.payload && !isIntentFromFrame(data.payload, frame)) {
+			this.postToFrame(
+				frame,
+				createErrorMessage(ERROR_CODES.INVALID_PAYLOAD, 'Intent identity does not match the frame', requestId),
+			);
+			return;
+		}
+
+		if (!this.options.capabilities!.includes(data.action)) {
+			this.postToFrame(
+				frame,
+				createErrorMessage(ERROR_CODES.NOT_SUPPORTED, `Unsupported action: ${data.action}`, requestId),
+			);
+			return;
+		}
+
+		if (this.options.onIntent) {
+			this.options.onIntent(frame, data);
+		}
+
+		const { handlers } = this.options;
+		const controller = new AbortController();
+		if (requestId) {
+			this.activeIntents.set(requestId, { frame, controller });
+		}
+
+		try {
+			switch (data.action) {
+				case 'getUserAddress': {
+					const context = await handlers.getContext(frame);
+					const address = handlers.getUserAddress ? await handlers.getUserAddress(frame) : context.address;
+					this.postToFrame(frame, this.createContext(frame, { ...context, address }));
+					break;
+				}
+				case 'query': {
+					const result = await handlers.query(data.payload, frame, controller.signal);
+					if (!controller.signal.aborted) {
+						this.postToFrame(frame, createScriptResultMessage(result, requestId, this.options.queryResultEncoding));
+					}
+					break;
+				}
+				case 'mutate': {
+					const txId = await handlers.mutate(data.payload, frame, controller.signal);
+					if (!controller.signal.aborted) {
+						this.postToFrame(frame, createTransactionResultMessage('success', txId, requestId));
+					}
+					break;
+				}
+			}
+		} catch (error) {
+			// The frame stopped waiting, there is no one to tell
+			if (controller.signal.aborted) {
+				return;
+			}
+
+			const normalizedError = normalizeError(error);
+			this.postToFrame(frame, createErrorMessage(normalizedError.code, normalizedError.message, requestId));
+		} finally {
+			if (requestId) {
+				this.activeIntents.delete(requestId);
+			}
+		}
+	}
+}
@@ -1,5 +1,10 @@
 import * as helpers from './helpers';
 import * as detector from './detector';
 import * as injector from './injector';
+import * as host from './host';
+import * as metadata from './metadata';
+import * as registry from './registry';
+import * as csp from './csp';
+import * as consent from './consent';
 
-export { helpers, detector, injector };
+export { helpers, detector, injector, host, metadata, registry, csp, consent };
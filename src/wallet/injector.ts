@@ -1,6 +1,11 @@
 import { RIFT_URI_SCHEME } from '../constants';
 import { convertRiftUrl } from './detector';
-import { parseRiftUri } from '../utils';
+import { normalizeHexColor, parseRiftUri } from '../utils';
+import { RiftResizeMessage } from '../rift';
+import { getFrameId, getFrameTargetOrigin, isMessageFromFrame } from './helpers';
+import { mergeFrameMetadata, RiftFrameMetadata } from './metadata';
+import { matchesHost, RiftRegistry, RiftTrustLevel } from './registry';
+import { RiftConsentStorage } from './consent';
 
 /**
  * Height presets for Rift Frames
@@ -26,6 +31,74 @@ export function getFrameHeight(preset: string | undefined): string {
 	}
 }
 
+/**
+ * Frame waiting for the user's confirmation before it is injected
+ */
+export interface RiftInjectionRequest {
+	/** The element the frame replaces */
+	element: HTMLElement;
+	/** The Rift URL of the frame */
+	riftUrl: string;
+	/** Hostname of the frame */
+	host: string;
+	trustLevel: RiftTrustLevel;
+}
+
+/**
+ * Lifecycle state of a frame
+ * - `pending`: waiting for the registry, the user, the viewport or a free slot
+ * - `loading`: the iframe is loading its page
+ * - `handshaking`: the page loaded, waiting for the Rift handshake
+ * - `ready`: the frame sent its Rift handshake
+ * - `failed`: the frame never sent its handshake, retries included
+ * - `removed`: the frame was removed, blocked or declined
+ */
+export type RiftFrameState = 'pending' | 'loading' | 'handshaking' | 'ready' | 'failed' | 'removed';
+
+/**
+ * A transition of a frame between two lifecycle states
+ */
+export interface RiftFrameStateChange {
+	/** The element the frame replaces */
+	element: HTMLElement;
+	/** The Rift URL of the frame */
+	riftUrl: string;
+	/** The iframe, null until it is created */
+	iframe: HTMLIFrameElement | null;
+	state: RiftFrameState;
+	previousState: RiftFrameState | null;
+}
+
+/**
+ * What to do with a frame that failed to load
+ * - `restore`: remove the frame and show the original link again
+ * - `keep`: leave the failed frame in place
+ * - a function: remove the frame and let the function render a fallback in place of the element
+ */
+export type RiftFrameFallback = 'restore' | 'keep' | ((element: HTMLElement, riftUrl: string) => void);
+
+/**
+ * Message channel of an injected frame, tied to the element and Rift URL it replaces
+ */
+export interface RiftFrameChannel {
+	iframe: HTMLIFrameElement;
+	/** The element the frame replaces */
+	element: HTMLElement;
+	/** The Rift URL of the frame */
+	riftUrl: string;
+	/**
+	 * Post a message to the frame, dropped while the frame is unloaded
+	 * @param message The message to send
+	 */
+	send(message: any): void;
+	/**
+	 * Listen for messages from the frame
+	 * @param handler Called with the message data and its event
+	 * @returns A function removing the listener
+	 */
+	onMessage(handler: (message: any, event: MessageEvent) => void): () => void;
+}
+
 /**
  * Options for the iframe injector
  */
@@ -36,22 +109,159 @@ export interface IframeInjectorOptions {
 	defaultHeight?: string;
 	/** Default sandbox attributes */
 	sandboxAttributes?: string;
-	/** Function to call when an iframe is injected */
-	onIframeInjected?: (iframe: HTMLIFrameElement, originalElement: HTMLElement) => void;
-	/** Function to call when an iframe is removed */
+	/** Whether frames may set their own height with `rift:resize` messages, defaults to true */
+	allowAutoResize?: boolean;
+	/** Minimum height of an auto-resized frame (px) */
+	minFrameHeight?: number;
+	/** Maximum height of an auto-resized frame (px) */
+	maxFrameHeight?: number;
+	/** Resolve the metadata of a frame page, e.g. with `fetchFrameMetadata`, to show a preview card while it loads */
+	getFrameMetadata?: (url: string) => Promise<RiftFrameMetadata | null>;
+	/** Insert a placeholder and load the frame only when it nears the viewport */
+	lazy?: boolean;
+	/** Distance from the viewport at which lazy frames load, as a CSS margin, defaults to '200px' */
+	lazyRootMargin?: string;
+	/** Unload lazy frames far offscreen, they load again when they come back near the viewport */
+	unloadOffscreen?: boolean;
+	/** Distance from the viewport beyond which frames are unloaded, as a CSS margin, defaults to '1500px' */
+	unloadRootMargin?: string;
+	/** Maximum number of live frames on the page, others wait as placeholders until a frame is unloaded or removed */
+	maxLiveFrames?: number;
+	/** Registry classifying frame hosts, every host is unverified without one */
+	registry?: RiftRegistry;
+	/** Hosts never injected, `*.example.com` matches every subdomain of example.com */
+	blockedHosts?: string[];
+	/** Ask the user before injecting a frame from an unverified host, resolve to false to skip it */
+	confirmInjection?: (request: RiftInjectionRequest) => Promise<boolean> | boolean;
+	/** Show a card with a "Load" action in place of every frame, the frame loads once the user clicks it */
+	clickToLoad?: boolean;
+	/** Storage of the hosts the user always allows, their frames load without the card */
+	consentStorage?: RiftConsentStorage;
+	/** Function to call when an iframe is injected, or inserted again after being unloaded offscreen */
+	onIframeInjected?: (iframe: HTMLIFrameElement, originalElement: HTMLElement, trustLevel: RiftTrustLevel) => void;
+	/** Function to call when a frame is not injected because its host is blocked */
+	onIframeBlocked?: (originalElement: HTMLElement, riftUrl: string, host: string | null) => void;
+	/** Function to call when an iframe is removed or unloaded offscreen, e.g. to detach it from the `RiftHost` */
 	onIframeRemoved?: (iframe: HTMLIFrameElement, originalElement: HTMLElement) => void;
-	/** Function to call when an iframe has a loading error */
+	/** Function to call when a frame failed to load, once every retry failed */
 	onIframeError?: (error: Error, iframe: HTMLIFrameElement, originalElement: HTMLElement) => void;
+	/** Time for a frame to load and send its Rift handshake before the attempt fails (ms), defaults to 10000 */
+	frameTimeout?: number;
+	/**
+	 * Whether a frame that loaded but didn't send its Rift handshake within `frameTimeout` fails, defaults to true.
+	 * Disable it for pages calling `rift()` later, e.g. on a user action, they then stay `handshaking` until they do
+	 */
+	requireHandshake?: boolean;
+	/** Number of reloads of a frame that didn't load or handshake in time, defaults to 2 */
+	maxRetries?: number;
+	/** Delay before the first reload (ms), doubling with each retry, defaults to 1000 */
+	retryDelay?: number;
+	/** What to do with a frame that failed to load once every retry failed, defaults to 'restore' */
+	fallback?: RiftFrameFallback;
+	/** Function to call when a frame moves to another lifecycle state */
+	onFrameStateChange?: (change: RiftFrameStateChange) => void;
 }
 
-// Add CSP error detection
-document.addEventListener('securitypolicyviolation', (e) => {
-	console.error('Content Security Policy violation:', {
-		blockedURI: e.blockedURI,
-		violatedDirective: e.violatedDirective,
-		originalPolicy: e.originalPolicy,
+// Add CSP error detection, skipped outside the browser (e.g. server-side rendering)
+if (typeof document !== 'undefined') {
+	document.addEventListener('securitypolicyviolation', (e) => {
+		console.error('Content Security Policy violation:', {
+			blockedURI: e.blockedURI,
+			violatedDirective: e.violatedDirective,
+			originalPolicy: e.originalPolicy,
+		});
 	});
-});
+}
+
+/**
+ * A frame shown as a placeholder, waiting for the viewport or for a free slot
+ */
+interface DeferredFrame {
+	element: HTMLElement;
+	riftUrl: string;
+	iframeUrl: string;
+	trustLevel: RiftTrustLevel;
+	placeholder: HTMLElement;
+	/** Iframe of a frame unloaded offscreen, inserted again when it loads */
+	iframe: HTMLIFrameElement | null;
+	/** Whether the placeholder is near the viewport */
+	nearViewport: boolean;
+}
+
+/**
+ * A frame shown as a click-to-load card, waiting for the user
+ */
+interface ConsentRequest {
+	riftUrl: string;
+	iframeUrl: string;
+	host: string;
+	trustLevel: RiftTrustLevel;
+	card: HTMLElement;
+}
+
+/**
+ * Channel of an injected frame, fed by the message listener of the injector
+ */
+class FrameChannel implements RiftFrameChannel {
+	public iframe: HTMLIFrameElement;
+	public element: HTMLElement;
+	public riftUrl: string;
+	private handlers: Set<(message: any, event: MessageEvent) => void> = new Set();
+
+	constructor(iframe: HTMLIFrameElement, element: HTMLElement, riftUrl: string) {
+		this.iframe = iframe;
+		this.element = element;
+		this.riftUrl = riftUrl;
+	}
+
+	public send(message: any): void {
+		if (!this.iframe.contentWindow) {
+			console.warn('Cannot post to a Rift frame without a content window');
+			return;
+		}
+
+		this.iframe.contentWindow.postMessage(message, getFrameTargetOrigin(this.iframe));
+	}
+
+	public onMessage(handler: (message: any, event: MessageEvent) => void): () => void {
+		this.handlers.add(handler);
+		return () => {
+			this.handlers.delete(handler);
+		};
+	}
+
+	/**
+	 * Pass a message from the frame to every listener
+	 */
+	public dispatch(event: MessageEvent): void {
+		this.handlers.forEach((handler) => {
+			try {
+				handler(event.data, event);
+			} catch (error) {
+				console.error('Error in Rift frame message handler:', error);
+			}
+		});
+	}
+
+	/**
+	 * Remove every listener, once the frame is removed
+	 */
+	public close(): void {
+		this.handlers.clear();
+	}
+}
+
+/**
+ * Load attempts of a live frame
+ */
+interface FrameLoad {
+	/** Reloads done so far */
+	retries: number;
+	/** Timeout of the current attempt, or delay before the next one */
+	timer: ReturnType<typeof setTimeout> | null;
+	/** Whether a reload is scheduled, failures are ignored until it starts */
+	retryPending: boolean;
+}
 
 /**
  * Default sandbox attributes for security
@@ -64,46 +274,767 @@ const DEFAULT_SANDBOX = 'allow-scripts';
 export class IframeInjector {
 	private options: IframeInjectorOptions;
 	private injectedFrames: Map<HTMLElement, HTMLIFrameElement> = new Map();
+	private resizedFrames: WeakSet<HTMLIFrameElement> = new WeakSet();
+	private pendingInjections: Map<HTMLElement, Promise<HTMLIFrameElement | null>> = new Map();
+	private deferredFrames: Map<HTMLElement, DeferredFrame> = new Map();
+	private consentRequests: Map<HTMLElement, ConsentRequest> = new Map();
+	private channels: Map<HTMLIFrameElement, FrameChannel> = new Map();
+	private messageListener: (event: MessageEvent) => void;
+	private destroyed: boolean = false;
+	private frameStates: Map<HTMLElement, RiftFrameState> = new Map();
+	private frameLoads: Map<HTMLIFrameElement, FrameLoad> = new Map();
+	private loadingMessages: Map<HTMLIFrameElement, HTMLElement> = new Map();
+	private liveFrames: Set<HTMLIFrameElement> = new Set();
+	private loadObserver: IntersectionObserver | null = null;
+	private unloadObserver: IntersectionObserver | null = null;
 
 	constructor(options: IframeInjectorOptions = {}) {
 		this.options = {
 			defaultWidth: '100%',
 			defaultHeight: getFrameHeight(FrameHeightPreset.STANDARD),
 			sandboxAttributes: DEFAULT_SANDBOX,
+			allowAutoResize: true,
+			minFrameHeight: 100,
+			maxFrameHeight: 800,
+			lazyRootMargin: '200px',
+			unloadRootMargin: '1500px',
+			frameTimeout: 10000,
+			requireHandshake: true,
+			maxRetries: 2,
+			retryDelay: 1000,
+			fallback: 'restore',
 			...options,
 		};
 
+		// Without IntersectionObserver, lazy frames load right away
+		if (this.options.lazy && typeof IntersectionObserver !== 'undefined') {
+			this.loadObserver = new IntersectionObserver((entries) => this.handlePlaceholderVisibility(entries), {
+				rootMargin: this.options.lazyRootMargin,
+			});
+
+			if (this.options.unloadOffscreen) {
+				this.unloadObserver = new IntersectionObserver((entries) => this.handleFrameVisibility(entries), {
+					rootMargin: this.options.unloadRootMargin,
+				});
+			}
+		}
+
 		// Listen for messages from iframes
-		window.addEventListener('message', (event) => {
-			// Check if message is from one of our iframes
-			const isFromInjectedFrame = Array.from(this.injectedFrames.values()).some(
-				(iframe) => iframe.contentWindow === event.source,
-			);
+		this.messageListener = (event: MessageEvent) => this.handleMessage(event);
+		window.addEventListener('message', this.messageListener);
+	}
+
+	/**
+	 * Route a message from one of the injected frames to its channel
+	 */
+	private handleMessage(event: MessageEvent): void {
+		// Check if message is from one of our iframes, matching both window and origin
+		const channel = Array.from(this.channels.values()).find((item) => isMessageFromFrame(event, item.iframe));
+
+		if (!channel) {
+			return;
+		}
+
+		if (event.data && event.data.type === 'rift:resize') {
+			this.handleResize(channel.iframe, event.data as RiftResizeMessage);
+		} else if (event.data && event.data.type === 'rift:handshake') {
+			this.handleHandshake(channel);
+		}
+
+		channel.dispatch(event);
+	}
+
+	/**
+	 * Move a frame to another lifecycle state and report the change
+	 */
+	private setFrameState(
+		element: HTMLElement,
+		riftUrl: string,
+		iframe: HTMLIFrameElement | null,
+		state: RiftFrameState,
+	): void {
+		const previousState = this.frameStates.get(element) || null;
+		if (previousState === state) {
+			return;
+		}
+
+		if (state === 'removed') {
+			this.frameStates.delete(element);
+		} else {
+			this.frameStates.set(element, state);
+		}
+
+		if (this.options.onFrameStateChange) {
+			this.options.onFrameStateChange({ element, riftUrl, iframe, state, previousState });
+		}
+	}
+
+	/**
+	 * Start a load attempt of a frame inserted in the page, it fails if the frame doesn't send its handshake in time
+	 */
+	private startLoad(iframe: HTMLIFrameElement, element: HTMLElement, riftUrl: string, retries: number = 0): void {
+		this.stopLoad(iframe);
+		this.setFrameState(element, riftUrl, iframe, 'loading');
 
-			if (isFromInjectedFrame) {
-				console.log('Message from Rift iframe:', event.data);
+		const timer = setTimeout(
+			() =>
+				this.handleLoadFailure(
+					iframe,
+					element,
+					riftUrl,
+					this.frameStates.get(element) === 'handshaking' ? 'no handshake' : 'timeout',
+				),
+			this.options.frameTimeout,
+		);
+		this.frameLoads.set(iframe, { retries, timer, retryPending: false });
+	}
+
+	/**
+	 * Cancel the current load attempt of a frame, or its pending retry
+	 */
+	private stopLoad(iframe: HTMLIFrameElement): void {
+		const load = this.frameLoads.get(iframe);
+
+		if (load?.timer) {
+			clearTimeout(load.timer);
+		}
+
+		this.frameLoads.delete(iframe);
+	}
+
+	/**
+	 * Remove the loading indicator or preview card shown above a frame until it loads
+	 */
+	private removeLoadingMessage(iframe: HTMLIFrameElement): void {
+		this.loadingMessages.get(iframe)?.remove();
+		this.loadingMessages.delete(iframe);
+	}
+
+	/**
+	 * Reload a frame that didn't load or handshake in time after a growing delay, or give up and apply the fallback
+	 */
+	private handleLoadFailure(iframe: HTMLIFrameElement, element: HTMLElement, riftUrl: string, reason: string): void {
+		const load = this.frameLoads.get(iframe);
+		if (!load || load.retryPending) {
+			return;
+		}
+
+		if (load.retries < (this.options.maxRetries || 0)) {
+			const retries = load.retries + 1;
+			const delay = (this.options.retryDelay || 0) * 2 ** (retries - 1);
+			console.warn(`Rift iframe failed to load (${reason}), retrying in ${delay}ms:`, riftUrl);
+
+			if (load.timer) {
+				clearTimeout(load.timer);
 			}
-		});
+
+			load.retryPending = true;
+			load.timer = setTimeout(() => {
+				this.startLoad(iframe, element, riftUrl, retries);
+				// Setting the source again reloads the page
+				iframe.src = iframe.src;
+			}, delay);
+			return;
+		}
+
+		this.stopLoad(iframe);
+		this.setFrameState(element, riftUrl, iframe, 'failed');
+
+		if (this.options.onIframeError) {
+			const error = new Error(`Failed to load iframe content (${reason}): ${riftUrl}`);
+			this.options.onIframeError(error, iframe, element);
+		}
+
+		const fallback = this.options.fallback;
+		if (fallback === 'keep' || !this.injectedFrames.has(element)) {
+			return;
+		}
+
+		this.discardFrame(element);
+		this.setFrameState(element, riftUrl, iframe, 'removed');
+		if (this.options.onIframeRemoved) {
+			this.options.onIframeRemoved(iframe, element);
+		}
+
+		if (typeof fallback === 'function') {
+			fallback(element, riftUrl);
+		}
+
+		// The freed slot goes to frames waiting near the viewport
+		this.loadDeferredFrames();
+	}
+
+	/**
+	 * Mark a frame ready once it sent its Rift handshake, late handshakes of failed frames kept in place included
+	 */
+	private handleHandshake(channel: FrameChannel): void {
+		const state = this.frameStates.get(channel.element);
+		if (state !== 'loading' && state !== 'handshaking' && state !== 'failed') {
+			return;
+		}
+
+		this.stopLoad(channel.iframe);
+		this.setFrameState(channel.element, channel.riftUrl, channel.iframe, 'ready');
+	}
+
+	/**
+	 * Get the lifecycle state of a frame
+	 * @param element The original element
+	 * @returns The state, or null if the element has no frame
+	 */
+	public getFrameState(element: HTMLElement): RiftFrameState | null {
+		return this.frameStates.get(element) || null;
+	}
+
+	/**
+	 * Apply the content height reported by a frame, within the configured bounds
+	 * Frames that never report their height keep their preset height
+	 */
+	private handleResize(iframe: HTMLIFrameElement, message: RiftResizeMessage): void {
+		if (!this.options.allowAutoResize || typeof message.height !== 'number' || !isFinite(message.height)) {
+			return;
+		}
+
+		const minHeight = this.options.minFrameHeight || 0;
+		const maxHeight = this.options.maxFrameHeight || Infinity;
+		const height = Math.round(Math.min(Math.max(message.height, minHeight), maxHeight));
+
+		iframe.height = `${height}px`;
+		this.resizedFrames.add(iframe);
+	}
+
+	/**
+	 * Resolve the metadata of a frame, apply its height and color, and show its preview card until the frame loads
+	 * Meta tags take precedence over the parameters of the Rift URI
+	 */
+	private async applyMetadata(
+		iframe: HTMLIFrameElement,
+		url: string,
+		riftParams: Record<string, string> | undefined,
+		loadingMessage: HTMLElement,
+	): Promise<void> {
+		let pageMetadata: RiftFrameMetadata | null = null;
+
+		try {
+			pageMetadata = await this.options.getFrameMetadata!(url);
+		} catch (error) {
+			console.warn('Failed to resolve Rift frame metadata:', error);
+		}
+
+		const metadata = mergeFrameMetadata(pageMetadata, riftParams);
+
+		if (metadata.height && !this.resizedFrames.has(iframe)) {
+			iframe.height = getFrameHeight(metadata.height);
+		}
+
+		if (metadata.color) {
+			iframe.setAttribute('data-rift-color', metadata.color);
+		}
+
+		// The frame already loaded, or was removed
+		if (!loadingMessage.parentNode) {
+			return;
+		}
+
+		if (metadata.title || metadata.description || metadata.image) {
+			loadingMessage.textContent = '';
+			loadingMessage.appendChild(
+				this.createPreviewCard(metadata, `Loading${metadata.siteName ? ` ${metadata.siteName}` : ''}...`),
+			);
+		}
+	}
+
+	/**
+	 * Create the preview card shown while a frame loads, or in its click-to-load card
+	 */
+	private createPreviewCard(metadata: RiftFrameMetadata, status: string | null): HTMLElement {
+		const card = document.createElement('div');
+		card.setAttribute('data-rift-preview', 'true');
+		card.style.border = `1px solid ${metadata.color || '#e0e0e0'}`;
+		card.style.borderRadius = '8px';
+		card.style.overflow = 'hidden';
+		card.style.textAlign = 'left';
+
+		if (metadata.image) {
+			const image = document.createElement('img');
+			image.src = metadata.image;
+			image.alt = metadata.title || '';
+			image.style.display = 'block';
+			image.style.width = '100%';
+			image.style.maxHeight = '200px';
+			image.style.objectFit = 'cover';
+			card.appendChild(image);
+		}
+
+		const body = document.createElement('div');
+		body.style.padding = '10px';
+
+		if (metadata.title) {
+			const title = document.createElement('div');
+			title.textContent = metadata.title;
+			title.style.fontWeight = 'bold';
+			body.appendChild(title);
+		}
+
+		if (metadata.description) {
+			const description = document.createElement('div');
+			description.textContent = metadata.description;
+			description.style.marginTop = '4px';
+			body.appendChild(description);
+		}
+
+		if (status) {
+			const statusElement = document.createElement('div');
+			statusElement.textContent = status;
+			statusElement.style.marginTop = '8px';
+			statusElement.style.opacity = '0.6';
+			body.appendChild(statusElement);
+		}
+
+		card.appendChild(body);
+		return card;
 	}
 
 	/**
-	 * Inject an iframe for a Rift link
+	 * Inject an iframe for a Rift link, once its host is classified and, if unverified, confirmed
+	 * In click-to-load or lazy mode, or once the frame cap is reached, a card or placeholder is inserted instead
+	 * and the iframe is reported through `onIframeInjected` when it loads.
+	 * Resolves once the host is checked, older versions returned the iframe synchronously
 	 * @param element The element to replace with an iframe
 	 * @param riftUrl The Rift URL to inject
-	 * @returns The injected iframe element
+	 * @returns The injected iframe element, or null if the frame was blocked, declined or deferred
 	 */
-	public injectFrame(element: HTMLElement, riftUrl: string): HTMLIFrameElement | null {
+	public async injectFrame(element: HTMLElement, riftUrl: string): Promise<HTMLIFrameElement | null> {
 		// Check if already injected
 		if (this.injectedFrames.has(element)) {
 			return this.injectedFrames.get(element) || null;
 		}
 
-		// Parse Rift URL to extract parameters
-		const parsedRiftUrl = parseRiftUri(riftUrl);
+		// Check if already waiting for the viewport, a free slot or a click
+		if (this.deferredFrames.has(element) || this.consentRequests.has(element)) {
+			return null;
+		}
+
+		// Check if already waiting for the registry or the user
+		const pending = this.pendingInjections.get(element);
+		if (pending) {
+			return pending;
+		}
+
+		this.setFrameState(element, riftUrl, null, 'pending');
+
+		const injection = this.checkAndCreateFrame(element, riftUrl).finally(() => this.pendingInjections.delete(element));
+		this.pendingInjections.set(element, injection);
+
+		return injection;
+	}
 
-		// Convert Rift URL to HTTPS URL
+	/**
+	 * Get the trust level of a host, blocked hosts of the options win over the registry
+	 */
+	public async getTrustLevel(host: string): Promise<RiftTrustLevel> {
+		if ((this.options.blockedHosts || []).some((pattern) => matchesHost(host, pattern))) {
+			return 'blocked';
+		}
+
+		if (!this.options.registry) {
+			return 'unverified';
+		}
+
+		try {
+			return await this.options.registry.getTrustLevel(host.toLowerCase());
+		} catch (error) {
+			console.warn('Failed to classify Rift frame host:', error);
+			return 'unverified';
+		}
+	}
+
+	/**
+	 * Check whether the user always allows a host
+	 */
+	private async isHostAllowed(host: string): Promise<boolean> {
+		if (!this.options.consentStorage) {
+			return false;
+		}
+
+		try {
+			return await this.options.consentStorage.isAllowed(host);
+		} catch (error) {
+			console.warn('Failed to read Rift consent storage:', error);
+			return false;
+		}
+	}
+
+	/**
+	 * Classify the host of a frame, ask for confirmation if needed, and create the frame
+	 */
+	private async checkAndCreateFrame(element: HTMLElement, riftUrl: string): Promise<HTMLIFrameElement | null> {
 		const iframeUrl = riftUrl.startsWith(RIFT_URI_SCHEME) ? convertRiftUrl(riftUrl) : riftUrl;
 
+		let host: string | null = null;
+		try {
+			host = new URL(iframeUrl).hostname.toLowerCase();
+		} catch (e) {
+			// Invalid URLs are blocked below
+		}
+
+		const trustLevel = host ? await this.getTrustLevel(host) : 'blocked';
+
+		if (this.destroyed) {
+			return null;
+		}
+
+		if (!host || trustLevel === 'blocked') {
+			console.warn('Blocked Rift frame:', riftUrl);
+			this.setFrameState(element, riftUrl, null, 'removed');
+			if (this.options.onIframeBlocked) {
+				this.options.onIframeBlocked(element, riftUrl, host);
+			}
+			return null;
+		}
+
+		// The click-to-load card takes the place of the confirmation
+		if (this.options.clickToLoad) {
+			const allowed = await this.isHostAllowed(host);
+
+			if (this.destroyed) {
+				return null;
+			}
+
+			if (!allowed) {
+				this.showConsentCard(element, riftUrl, iframeUrl, host, trustLevel);
+				return null;
+			}
+		} else if (trustLevel === 'unverified' && this.options.confirmInjection) {
+			const confirmed = await this.options.confirmInjection({ element, riftUrl, host, trustLevel });
+			if (!confirmed || this.destroyed) {
+				this.setFrameState(element, riftUrl, null, 'removed');
+				return null;
+			}
+		}
+
+		return this.loadFrame(element, riftUrl, iframeUrl, trustLevel);
+	}
+
+	/**
+	 * Create the frame of a consented link, or defer it in lazy mode or once the frame cap is reached
+	 */
+	private loadFrame(
+		element: HTMLElement,
+		riftUrl: string,
+		iframeUrl: string,
+		trustLevel: RiftTrustLevel,
+	): HTMLIFrameElement | null {
+		if (this.options.lazy || !this.hasFreeSlot()) {
+			this.deferFrame(element, riftUrl, iframeUrl, trustLevel, null);
+			return null;
+		}
+
+		return this.createFrame(element, riftUrl, iframeUrl, trustLevel);
+	}
+
+	/**
+	 * Insert the click-to-load card of a frame in place of the element
+	 */
+	private showConsentCard(
+		element: HTMLElement,
+		riftUrl: string,
+		iframeUrl: string,
+		host: string,
+		trustLevel: RiftTrustLevel,
+	): void {
+		if (!element.parentNode) {
+			return;
+		}
+
+		const parsedRiftUrl = parseRiftUri(riftUrl);
+		const accentColor = normalizeHexColor(parsedRiftUrl?.riftParams.color) || '#3b82f6';
+		const path = parsedRiftUrl && parsedRiftUrl.path !== '/' ? parsedRiftUrl.path : '';
+
+		const card = document.createElement('div');
+		card.setAttribute('data-rift-consent', 'true');
+		card.setAttribute('role', 'group');
+		card.setAttribute('aria-label', `Rift frame from ${host}`);
+		card.style.width = this.options.defaultWidth || '100%';
+		card.style.boxSizing = 'border-box';
+		card.style.padding = '10px';
+		card.style.border = `1px solid ${accentColor}`;
+		card.style.borderRadius = '8px';
+		card.style.fontFamily = 'sans-serif';
+
+		const preview = document.createElement('div');
+		card.appendChild(preview);
+
+		const header = document.createElement('div');
+		header.style.display = 'flex';
+		header.style.alignItems = 'center';
+		header.style.gap = '8px';
+
+		const location = document.createElement('span');
+		location.textContent = `${host}${path}`;
+		location.style.fontWeight = 'bold';
+		location.style.overflowWrap = 'anywhere';
+		header.appendChild(location);
+
+		const badge = document.createElement('span');
+		badge.setAttribute('data-rift-trust', trustLevel);
+		badge.textContent = trustLevel === 'verified' ? 'Verified' : 'Unverified';
+		badge.style.padding = '2px 6px';
+		badge.style.borderRadius = '4px';
+		badge.style.fontSize = '12px';
+		badge.style.background = trustLevel === 'verified' ? '#dcfce7' : '#fef3c7';
+		badge.style.color = trustLevel === 'verified' ? '#166534' : '#92400e';
+		header.appendChild(badge);
+		card.appendChild(header);
+
+		const notice = document.createElement('p');
+		notice.textContent = 'This frame runs code from a third-party site.';
+		notice.style.margin = '8px 0';
+		notice.style.opacity = '0.7';
+		card.appendChild(notice);
+
+		const actions = document.createElement('div');
+		actions.style.display = 'flex';
+		actions.style.alignItems = 'center';
+		actions.style.gap = '12px';
+
+		const loadButton = document.createElement('button');
+		loadButton.type = 'button';
+		loadButton.textContent = 'Load';
+		loadButton.setAttribute('aria-label', `Load Rift frame from ${host}`);
+		loadButton.style.padding = '6px 16px';
+		loadButton.style.border = 'none';
+		loadButton.style.borderRadius = '4px';
+		loadButton.style.background = accentColor;
+		loadButton.style.color = '#ffffff';
+		loadButton.style.cursor = 'pointer';
+		actions.appendChild(loadButton);
+
+		let alwaysAllow: HTMLInputElement | null = null;
+		if (this.options.consentStorage) {
+			const label = document.createElement('label');
+			alwaysAllow = document.createElement('input');
+			alwaysAllow.type = 'checkbox';
+			label.appendChild(alwaysAllow);
+			label.appendChild(document.createTextNode(` Always allow ${host}`));
+			actions.appendChild(label);
+		}
+
+		card.appendChild(actions);
+
+		loadButton.addEventListener('click', () => this.acceptConsent(element, alwaysAllow?.checked ?? false));
+
+		element.parentNode.insertBefore(card, element);
+		element.style.display = 'none';
+		this.consentRequests.set(element, { riftUrl, iframeUrl, host, trustLevel, card });
+
+		// Show the preview of the page once its metadata is resolved
+		if (this.options.getFrameMetadata) {
+			this.options
+				.getFrameMetadata(iframeUrl)
+				.then((metadata) => {
+					if (metadata && (metadata.title || metadata.description || metadata.image)) {
+						preview.appendChild(this.createPreviewCard(metadata, null));
+						preview.style.marginBottom = '10px';
+					}
+				})
+				.catch((error) => console.warn('Failed to resolve Rift frame metadata:', error));
+		}
+	}
+
+	/**
+	 * Load a frame the user clicked, and remember its host if always allowed
+	 * Other cards of an always allowed host load as well
+	 */
+	private acceptConsent(element: HTMLElement, alwaysAllow: boolean): void {
+		const request = this.consentRequests.get(element);
+		if (!request) {
+			return;
+		}
+
+		const elements = alwaysAllow
+			? Array.from(this.consentRequests.keys()).filter((key) => this.consentRequests.get(key)!.host === request.host)
+			: [element];
+
+		if (alwaysAllow && this.options.consentStorage) {
+			this.options.consentStorage
+				.allow(request.host)
+				.catch((error) => console.warn('Failed to write Rift consent storage:', error));
+		}
+
+		elements.forEach((key) => {
+			const { riftUrl, iframeUrl, trustLevel, card } = this.consentRequests.get(key)!;
+			this.consentRequests.delete(key);
+			card.remove();
+			this.loadFrame(key, riftUrl, iframeUrl, trustLevel);
+		});
+	}
+
+	/**
+	 * Check whether another frame may go live under the frame cap
+	 */
+	private hasFreeSlot(): boolean {
+		return this.liveFrames.size < (this.options.maxLiveFrames ?? Infinity);
+	}
+
+	/**
+	 * Insert a placeholder in place of the element, the frame loads when near the viewport and a slot is free
+	 */
+	private deferFrame(
+		element: HTMLElement,
+		riftUrl: string,
+		iframeUrl: string,
+		trustLevel: RiftTrustLevel,
+		iframe: HTMLIFrameElement | null,
+	): void {
+		if (!element.parentNode) {
+			this.setFrameState(element, riftUrl, iframe, 'removed');
+			return;
+		}
+
+		const parsedRiftUrl = parseRiftUri(riftUrl);
+		const placeholder = document.createElement('div');
+		placeholder.setAttribute('data-rift-placeholder', 'true');
+		placeholder.style.width = this.options.defaultWidth || '100%';
+		placeholder.style.height =
+			iframe?.height ||
+			(parsedRiftUrl?.riftParams.height
+				? getFrameHeight(parsedRiftUrl.riftParams.height)
+				: this.options.defaultHeight || getFrameHeight(FrameHeightPreset.STANDARD));
+		placeholder.style.display = 'flex';
+		placeholder.style.alignItems = 'center';
+		placeholder.style.justifyContent = 'center';
+		placeholder.style.boxSizing = 'border-box';
+		placeholder.style.border = '1px dashed #e0e0e0';
+		placeholder.style.fontFamily = 'sans-serif';
+		placeholder.textContent = `Rift frame from ${parsedRiftUrl?.host || iframeUrl}`;
+
+		element.parentNode.insertBefore(placeholder, element);
+		element.style.display = 'none';
+
+		const deferred: DeferredFrame = {
+			element,
+			riftUrl,
+			iframeUrl,
+			trustLevel,
+			placeholder,
+			iframe,
+			nearViewport: !this.loadObserver,
+		};
+		this.deferredFrames.set(element, deferred);
+		this.setFrameState(element, riftUrl, iframe, 'pending');
+
+		if (this.loadObserver) {
+			this.loadObserver.observe(placeholder);
+		} else {
+			this.loadDeferredFrames();
+		}
+	}
+
+	/**
+	 * Track which placeholders are near the viewport and load them
+	 */
+	private handlePlaceholderVisibility(entries: IntersectionObserverEntry[]): void {
+		entries.forEach((entry) => {
+			const deferred = Array.from(this.deferredFrames.values()).find((frame) => frame.placeholder === entry.target);
+			if (deferred) {
+				deferred.nearViewport = entry.isIntersecting;
+			}
+		});
+
+		this.loadDeferredFrames();
+	}
+
+	/**
+	 * Unload live frames that moved far offscreen
+	 */
+	private handleFrameVisibility(entries: IntersectionObserverEntry[]): void {
+		entries.forEach((entry) => {
+			if (!entry.isIntersecting) {
+				this.unloadFrame(entry.target as HTMLIFrameElement);
+			}
+		});
+	}
+
+	/**
+	 * Load the deferred frames near the viewport, in insertion order, while slots are free
+	 */
+	private loadDeferredFrames(): void {
+		for (const deferred of this.deferredFrames.values()) {
+			if (!this.hasFreeSlot()) {
+				return;
+			}
+
+			if (!deferred.nearViewport) {
+				continue;
+			}
+
+			this.deferredFrames.delete(deferred.element);
+			this.loadObserver?.unobserve(deferred.placeholder);
+			deferred.placeholder.remove();
+
+			if (deferred.iframe) {
+				deferred.element.parentNode?.insertBefore(deferred.iframe, deferred.element);
+				this.setLive(deferred.iframe);
+				this.startLoad(deferred.iframe, deferred.element, deferred.riftUrl);
+
+				if (this.options.onIframeInjected) {
+					this.options.onIframeInjected(deferred.iframe, deferred.element, deferred.trustLevel);
+				}
+			} else {
+				this.createFrame(deferred.element, deferred.riftUrl, deferred.iframeUrl, deferred.trustLevel);
+			}
+		}
+	}
+
+	/**
+	 * Count a frame against the cap and watch it for unloading
+	 */
+	private setLive(iframe: HTMLIFrameElement): void {
+		this.liveFrames.add(iframe);
+		this.unloadObserver?.observe(iframe);
+	}
+
+	/**
+	 * Replace a live frame with a placeholder, its document is unloaded and reloads when it comes back
+	 */
+	private unloadFrame(iframe: HTMLIFrameElement): void {
+		const element = Array.from(this.injectedFrames.keys()).find((key) => this.injectedFrames.get(key) === iframe);
+		if (!element || !this.liveFrames.has(iframe)) {
+			return;
+		}
+
+		this.liveFrames.delete(iframe);
+		this.unloadObserver?.unobserve(iframe);
+		this.stopLoad(iframe);
+		this.removeLoadingMessage(iframe);
+		iframe.remove();
+
+		// The page is gone with its pending intents
+		if (this.options.onIframeRemoved) {
+			this.options.onIframeRemoved(iframe, element);
+		}
+
+		const riftUrl = iframe.getAttribute('data-original-rift-url') || iframe.src;
+		const trustLevel = (iframe.getAttribute('data-rift-trust') as RiftTrustLevel) || 'unverified';
+		this.deferFrame(element, riftUrl, iframe.src, trustLevel, iframe);
+
+		// The freed slot goes to frames waiting near the viewport
+		this.loadDeferredFrames();
+	}
+
+	/**
+	 * Create the iframe of a Rift link and insert it in place of the element
+	 */
+	private createFrame(
+		element: HTMLElement,
+		riftUrl: string,
+		iframeUrl: string,
+		trustLevel: RiftTrustLevel,
+	): HTMLIFrameElement | null {
+		// Parse Rift URL to extract parameters
+		const parsedRiftUrl = parseRiftUri(riftUrl);
+
 		// Create iframe element
 		const iframe = document.createElement('iframe');
 		iframe.src = iframeUrl;
@@ -120,6 +1051,16 @@ export class IframeInjector {
 		iframe.sandbox.value = this.options.sandboxAttributes || DEFAULT_SANDBOX;
 		iframe.setAttribute('data-rift-frame', 'true');
 		iframe.setAttribute('data-original-rift-url', riftUrl);
+		iframe.setAttribute('data-rift-trust', trustLevel);
+
+		// Assign the stable ID sent to the frame in its context and checked on every intent
+		getFrameId(iframe);
+
+		// Keep the accent color for the wallet host, only valid hex colors are passed on
+		const accentColor = normalizeHexColor(parsedRiftUrl?.riftParams.color);
+		if (accentColor) {
+			iframe.setAttribute('data-rift-color', accentColor);
+		}
 
 		// Add loading indicator
 		const loadingMessage = document.createElement('div');
@@ -128,34 +1069,33 @@ export class IframeInjector {
 		loadingMessage.style.textAlign = 'center';
 		loadingMessage.style.fontFamily = 'sans-serif';
 		element.parentNode?.insertBefore(loadingMessage, element);
+		this.loadingMessages.set(iframe, loadingMessage);
 
-		// Add loading and error event handlers
+		// Replace the loading indicator with a preview card once the metadata is resolved
+		if (this.options.getFrameMetadata) {
+			this.applyMetadata(iframe, iframeUrl, parsedRiftUrl?.riftParams, loadingMessage);
+		}
+
+		// Add loading and error event handlers, the frame is ready once it sends its handshake
 		iframe.addEventListener('load', () => {
-			if (loadingMessage.parentNode) {
-				loadingMessage.parentNode.removeChild(loadingMessage);
-			}
-			console.log('Rift iframe loaded:', riftUrl);
-		});
+			this.removeLoadingMessage(iframe);
 
-		// Set a timeout to detect loading issues
-		const timeout = setTimeout(() => {
-			console.warn('Rift iframe load timeout:', riftUrl);
-			if (iframe.contentDocument) {
-				console.info('Iframe content state:', iframe.contentDocument.readyState);
+			const load = this.frameLoads.get(iframe);
+			if (this.frameStates.get(element) !== 'loading' || !load || load.retryPending) {
+				return;
 			}
-		}, 5000);
 
-		iframe.addEventListener('load', () => clearTimeout(timeout));
-		iframe.addEventListener('error', (e) => {
-			console.error('Rift iframe loading error:', e);
-			clearTimeout(timeout);
-
-			if (this.options.onIframeError) {
-				const error = new Error(`Failed to load iframe content: ${riftUrl}`);
-				this.options.onIframeError(error, iframe, element);
+			// Unless required, the handshake has no deadline, the page may connect on a user action
+			if (!this.options.requireHandshake && load.timer) {
+				clearTimeout(load.timer);
+				load.timer = null;
 			}
+
+			this.setFrameState(element, riftUrl, iframe, 'handshaking');
 		});
 
+		iframe.addEventListener('error', () => this.handleLoadFailure(iframe, element, riftUrl, 'error'));
+
 		// Replace the element with the iframe
 		if (element.parentNode) {
 			element.parentNode.insertBefore(iframe, element);
@@ -163,15 +1103,19 @@ export class IframeInjector {
 
 			// Store reference
 			this.injectedFrames.set(element, iframe);
+			this.channels.set(iframe, new FrameChannel(iframe, element, riftUrl));
+			this.setLive(iframe);
+			this.startLoad(iframe, element, riftUrl);
 
 			// Call callback
 			if (this.options.onIframeInjected) {
-				this.options.onIframeInjected(iframe, element);
+				this.options.onIframeInjected(iframe, element, trustLevel);
 			}
 
 			return iframe;
 		}
 
+		this.setFrameState(element, riftUrl, null, 'removed');
 		return null;
 	}
 
@@ -181,28 +1125,76 @@ export class IframeInjector {
 	 * @returns Whether the iframe was removed
 	 */
 	public removeFrame(element: HTMLElement): boolean {
+		const iframe = this.injectedFrames.get(element) || null;
+		const riftUrl = this.discardFrame(element);
+
+		if (riftUrl === null) {
+			return false;
+		}
+
+		this.setFrameState(element, riftUrl, iframe, 'removed');
+
+		// Call callback
+		if (iframe && this.options.onIframeRemoved) {
+			this.options.onIframeRemoved(iframe, element);
+		}
+
+		// The freed slot goes to frames waiting near the viewport
+		this.loadDeferredFrames();
+
+		return true;
+	}
+
+	/**
+	 * Take the iframe, placeholder or card of an element out of the page and show the element again
+	 * @returns The Rift URL of the frame, or null if the element had none
+	 */
+	private discardFrame(element: HTMLElement): string | null {
 		const iframe = this.injectedFrames.get(element);
+		const deferred = this.deferredFrames.get(element);
+		const consentRequest = this.consentRequests.get(element);
 
-		if (iframe && iframe.parentNode) {
-			iframe.parentNode.removeChild(iframe);
+		if (consentRequest) {
+			this.consentRequests.delete(element);
+			consentRequest.card.remove();
 			element.style.display = '';
-			this.injectedFrames.delete(element);
+			return consentRequest.riftUrl;
+		}
 
-			// Call callback
-			if (this.options.onIframeRemoved) {
-				this.options.onIframeRemoved(iframe, element);
-			}
+		if (deferred) {
+			this.deferredFrames.delete(element);
+			this.loadObserver?.unobserve(deferred.placeholder);
+			deferred.placeholder.remove();
+			element.style.display = '';
+		}
 
-			return true;
+		if (iframe && (iframe.parentNode || deferred)) {
+			iframe.remove();
+			element.style.display = '';
+			this.injectedFrames.delete(element);
+			this.liveFrames.delete(iframe);
+			this.unloadObserver?.unobserve(iframe);
+			this.stopLoad(iframe);
+			this.removeLoadingMessage(iframe);
+			this.channels.get(iframe)?.close();
+			this.channels.delete(iframe);
+
+			return iframe.getAttribute('data-original-rift-url') || iframe.src;
 		}
 
-		return false;
+		return deferred ? deferred.riftUrl : null;
 	}
 
 	/**
-	 * Remove all injected iframes
+	 * Remove all injected iframes, placeholders and click-to-load cards
 	 */
 	public removeAllFrames(): void {
+		this.consentRequests.forEach((request, element) => {
+			this.removeFrame(element);
+		});
+		this.deferredFrames.forEach((deferred, element) => {
+			this.removeFrame(element);
+		});
 		this.injectedFrames.forEach((iframe, element) => {
 			this.removeFrame(element);
 		});
@@ -214,4 +1206,33 @@ export class IframeInjector {
 	public getInjectedFrames(): Map<HTMLElement, HTMLIFrameElement> {
 		return new Map(this.injectedFrames);
 	}
+
+	/**
+	 * Get the message channel of an injected iframe
+	 *
+	 * Example usage:
+	 * ```ts
+	 * const channel = injector.getChannel(iframe);
+	 * const stop = channel?.onMessage((message) => console.log(channel.riftUrl, message));
+	 * channel?.send({ type: 'app:ping' });
+	 * ```
+	 * @param iframe The injected iframe
+	 * @returns The channel, or null if the iframe wasn't injected by this injector or was removed
+	 */
+	public getChannel(iframe: HTMLIFrameElement): RiftFrameChannel | null {
+		return this.channels.get(iframe) || null;
+	}
+
+	/**
+	 * Remove all frames, placeholders and cards, and the message listener
+	 * Injections still waiting for the registry or the user are dropped
+	 */
+	public destroy(): void {
+		this.destroyed = true;
+		this.removeAllFrames();
+		this.frameStates.clear();
+		this.loadObserver?.disconnect();
+		this.unloadObserver?.disconnect();
+		window.removeEventListener('message', this.messageListener);
+	}
 }
@@ -0,0 +1,115 @@
+import { RIFT_HEIGHT_PRESETS } from '../constants';
+import { normalizeHexColor } from '../utils';
+// Type-only, the injector imports this module at runtime
+import type { FrameHeightPreset } from './injector';
+
+/**
+ * Metadata a Rift frame page declares in its meta tags
+ */
+export interface RiftFrameMetadata {
+	/** Title from `og:title`, falling back to the page title */
+	title: string | null;
+	/** Description from `og:description` */
+	description: string | null;
+	/** Absolute URL of the preview image from `og:image` */
+	image: string | null;
+	/** Site name from `og:site_name` */
+	siteName: string | null;
+	/** Canonical URL from `og:url` */
+	url: string | null;
+	/** Height preset from `rift:height` */
+	height: FrameHeightPreset | null;
+	/** Accent color from `rift:color`, as `#rrggbb` */
+	color: string | null;
+}
+
+/**
+ * Check whether a value is a known height preset
+ */
+function toHeightPreset(value: string | null | undefined): FrameHeightPreset | null {
+	const preset = value?.trim().toLowerCase();
+	return preset && (RIFT_HEIGHT_PRESETS as readonly string[]).includes(preset) ? (preset as FrameHeightPreset) : null;
+}
+
+/**
+ * Resolve a possibly relative URL, only http(s) URLs are kept
+ */
+function toAbsoluteUrl(value: string | null, baseUrl: string | undefined): string | null {
+	if (!value) {
+		return null;
+	}
+
+	try {
+		const url = new URL(value, baseUrl);
+		return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : null;
+	} catch (e) {
+		return null;
+	}
+}
+
+/**
+ * Extract OpenGraph and `rift:*` metadata from a frame page
+ * @param source The fetched HTML or a parsed document
+ * @param baseUrl URL of the page, used to resolve relative image URLs
+ * @returns The frame metadata, missing fields are null
+ */
+export function parseFrameMetadata(source: string | Document, baseUrl?: string): RiftFrameMetadata {
+	const doc = typeof source === 'string' ? new DOMParser().parseFromString(source, 'text/html') : source;
+
+	// Pages use both `property` (OpenGraph) and `name` attributes
+	const getMeta = (key: string): string | null => {
+		const meta = doc.querySelector(`meta[property="${key}"], meta[name="${key}"]`);
+		const content = meta?.getAttribute('content')?.trim();
+		return content || null;
+	};
+
+	const pageTitle = doc.querySelector('title')?.textContent?.trim() || null;
+
+	return {
+		title: getMeta('og:title') || pageTitle,
+		description: getMeta('og:description'),
+		image: toAbsoluteUrl(getMeta('og:image'), baseUrl),
+		siteName: getMeta('og:site_name'),
+		url: toAbsoluteUrl(getMeta('og:url'), baseUrl),
+		height: toHeightPreset(getMeta('rift:height')),
+		color: normalizeHexColor(getMeta('rift:color')),
+	};
+}
+
+/**
+ * Merge page metadata with the `rift-*` parameters of a Rift URI.
+ * Meta tags take precedence, the URI parameters are used when a tag is missing or invalid.
+ * @param metadata Metadata extracted from the page
+ * @param riftParams Rift parameters of the URI, without the `rift-` prefix
+ * @returns The merged metadata
+ */
+export function mergeFrameMetadata(
+	metadata: RiftFrameMetadata | null,
+	riftParams: Record<string, string> = {},
+): RiftFrameMetadata {
+	return {
+		title: metadata?.title ?? null,
+		description: metadata?.description ?? null,
+		image: metadata?.image ?? null,
+		siteName: metadata?.siteName ?? null,
+		url: metadata?.url ?? null,
+		height: metadata?.height ?? toHeightPreset(riftParams.height),
+		color: metadata?.color ?? normalizeHexColor(riftParams.color),
+	};
+}
+
+/**
+ * Fetch a frame page and extract its metadata
+ * The page must allow cross-origin requests from the wallet
+ * @param url HTTPS URL of the frame
+ * @returns The frame metadata
+ */
+export async function fetchFrameMetadata(url: string): Promise<RiftFrameMetadata> {
+	const response = await fetch(url, { credentials: 'omit', headers: { Accept: 'text/html' } });
+
+	if (!response.ok) {
+		throw new Error(`Failed to fetch Rift frame metadata: ${response.status}`);
+	}
+
+	return parseFrameMetadata(await response.text(), response.url || url);
+}
@@ -0,0 +1,127 @@
+/**
+ * Trust level of a frame host
+ * - `verified`: listed in the registry, may get a reduced confirmation flow
+ * - `unverified`: unknown host, the user should confirm before the frame loads
+ * - `blocked`: never injected
+ */
+export type RiftTrustLevel = 'verified' | 'unverified' | 'blocked';
+
+/**
+ * Registry classifying the hosts of Rift frames.
+ * Implement it directly to resolve trust levels asynchronously, e.g. from a wallet backend.
+ */
+export interface RiftRegistry {
+	/**
+	 * Classify a frame host
+	 * @param host Lowercase hostname of the frame, without port
+	 */
+	getTrustLevel(host: string): Promise<RiftTrustLevel>;
+}
+
+/**
+ * Lists of host patterns, `*.example.com` matches every subdomain of example.com
+ */
+export interface RiftRegistryList {
+	/** Verified hosts */
+	verified?: string[];
+	/** Blocked hosts */
+	blocked?: string[];
+}
+
+/**
+ * Check whether a host matches a pattern
+ * @param host Hostname to check
+ * @param pattern Hostname, or `*.` followed by a domain to match its subdomains
+ */
+export function matchesHost(host: string, pattern: string): boolean {
+	const normalizedHost = host.toLowerCase();
+	const normalizedPattern = pattern.trim().toLowerCase();
+
+	if (normalizedPattern.startsWith('*.')) {
+		return normalizedHost.endsWith(normalizedPattern.substring(1));
+	}
+
+	return normalizedHost === normalizedPattern;
+}
+
+/**
+ * Classify a host with lists of patterns, blocked hosts win over verified ones
+ */
+function classifyHost(host: string, list: RiftRegistryList): RiftTrustLevel {
+	if ((list.blocked || []).some((pattern) => matchesHost(host, pattern))) {
+		return 'blocked';
+	}
+
+	if ((list.verified || []).some((pattern) => matchesHost(host, pattern))) {
+		return 'verified';
+	}
+
+	return 'unverified';
+}
+
+/**
+ * Registry backed by lists bundled with the wallet
+ *
+ * Example usage:
+ * ```ts
+ * const registry = new StaticRiftRegistry({
+ *   verified: ['mint.example.com', '*.trusted.app'],
+ *   blocked: ['scam.example'],
+ * });
+ * ```
+ */
+export class StaticRiftRegistry implements RiftRegistry {
+	private list: RiftRegistryList;
+
+	constructor(list: RiftRegistryList) {
+		this.list = list;
+	}
+
+	public async getTrustLevel(host: string): Promise<RiftTrustLevel> {
+		return classifyHost(host, this.list);
+	}
+}
+
+/**
+ * Registry backed by a JSON file with `verified` and `blocked` lists, fetched once and cached
+ * If the file can't be loaded, every host is unverified until the next attempt
+ */
+export class JsonRiftRegistry implements RiftRegistry {
+	private url: string;
+	private list: Promise<RiftRegistryList> | null = null;
+
+	constructor(url: string) {
+		this.url = url;
+	}
+
+	public async getTrustLevel(host: string): Promise<RiftTrustLevel> {
+		if (!this.list) {
+			this.list = this.load();
+		}
+
+		try {
+			return classifyHost(host, await this.list);
+		} catch (error) {
+			console.warn('Failed to load Rift registry:', error);
+			this.list = null;
+			return 'unverified';
+		}
+	}
+
+	/**
+	 * Fetch and validate the registry file
+	 */
+	private async load(): Promise<RiftRegistryList> {
+		const response = await fetch(this.url, { credentials: 'omit' });
+
+		if (!response.ok) {
+			throw new Error(`Failed to fetch Rift registry: ${response.status}`);
+		}
+
+		const data = await response.json();
+		const toList = (value: unknown) =>
+			Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+		return { verified: toList(data?.verified), blocked: toList(data?.blocked) };
+	}
+}
@@ -0,0 +1,382 @@
+/**
+ * @jest-environment jsdom
+ */
+import { Rift, RiftTxStatus, rift } from '../src';
+import { MockWallet } from '../src/testing';
+
+const cadence = 'access(all) fun main(): Int { return 1 }';
+
+describe('rift bridge', () => {
+	let mock: MockWallet;
+	let instance: Rift | null;
+
+	beforeEach(async () => {
+		mock = new MockWallet({ address: '0x01', network: 'flow-mainnet' }).install();
+		instance = await rift({ timeout: 1000 });
+	});
+
+	afterEach(() => {
+		instance?.destroy();
+		instance = null;
+		mock.uninstall();
+	});
+
+	describe('request correlation', () => {
+		it('correlates concurrent replies by request ID', async () => {
+			mock.mockQueryResult('first', { delay: 30 }).mockQueryResult('second', { delay: 0 });
+
+			const results = await Promise.all([
+				instance!.query({ cadence, args: [] }),
+				instance!.query({ cadence, args: [] }),
+			]);
+
+			expect(results).toEqual(['first', 'second']);
+			expect(new Set(mock.intents.map((intent) => intent.id)).size).toBe(2);
+		});
+
+		it('rejects pending calls when the wallet disconnects', async () => {
+			mock.mockTimeout('query');
+			const disconnected = jest.fn();
+			instance!.on('disconnected', disconnected);
+			const pending = instance!.query({ cadence, args: [], timeout: 0 });
+
+			mock.disconnect('locked');
+
+			await expect(pending).rejects.toMatchObject({ code: 'connection_error' });
+			expect(disconnected).toHaveBeenCalledWith({ initiator: 'wallet', reason: 'locked' });
+			expect(instance!.isConnected()).toBe(false);
+		});
+	});
+
+	describe('origin validation', () => {
+		it('ignores messages from other windows', () => {
+			const accountChanged = jest.fn();
+			instance!.on('accountChanged', accountChanged);
+
+			window.dispatchEvent(
+				new MessageEvent('message', {
+					data: { type: 'rift:context', address: '0x03', network: 'flow-mainnet' },
+					origin: 'https://wallet.test',
+				}),
+			);
+
+			expect(accountChanged).not.toHaveBeenCalled();
+		});
+
+		it('ignores messages from another origin than the wallet', () => {
+			const accountChanged = jest.fn();
+			instance!.on('accountChanged', accountChanged);
+			const event = new Event('message');
+
+			Object.defineProperties(event, {
+				data: { value: { type: 'rift:context', address: '0x03', network: 'flow-mainnet' } },
+				origin: { value: 'https://evil.test' },
+				source: { value: window.parent },
+			});
+			window.dispatchEvent(event);
+
+			expect(accountChanged).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('transaction status', () => {
+		it('streams updates until the transaction is sealed', async () => {
+			const statuses: string[] = [];
+			const iterate = (async () => {
+				for await (const txStatus of instance!.tx('0xabc')) {
+					statuses.push(txStatus.status);
+				}
+			})();
+
+			mock.sendTxStatus('0xabc', 'pending');
+			mock.sendTxStatus('0xother', 'sealed');
+			mock.sendTxStatus('0xabc', 'executed');
+			mock.sendTxStatus('0xabc', 'sealed');
+			await iterate;
+
+			expect(statuses).toEqual(['pending', 'executed', 'sealed']);
+			expect(instance!.tx('0xabc').snapshot()).toMatchObject({ status: 'sealed' });
+		});
+
+		it('rejects expired transactions', async () => {
+			const expired = jest.fn<void, [RiftTxStatus]>();
+			instance!.on('tx:expired', expired);
+			const sealed = instance!.tx('0xabc').onceSealed();
+
+			mock.sendTxStatus('0xabc', 'expired');
+
+			await expect(sealed).rejects.toMatchObject({ code: 'transaction_failed', message: 'Transaction expired' });
+			expect(expired).toHaveBeenCalledWith(expect.objectContaining({ txId: '0xabc', status: 'expired' }));
+		});
+	});
+
+	describe('query results', () => {
+		it('decodes results marked as JSON-Cadence', async () => {
+			mock.mockQueryResult({ type: 'UFix64', value: '1.50000000' }, { encoding: 'json-cadence' });
+			mock.mockQueryResult({ type: 'Array', value: [{ type: 'Int', value: '7' }] }, { encoding: 'json-cadence' });
+
+			await expect(instance!.query({ cadence, args: [] })).resolves.toBe('1.50000000');
+			await expect(instance!.query({ cadence, args: [] })).resolves.toEqual([7]);
+		});
+
+		it('passes unmarked results through', async () => {
+			const result = { type: 'Address', name: 'home' };
+			mock.mockQueryResult(result);
+
+			await expect(instance!.query({ cadence, args: [] })).resolves.toEqual(result);
+		});
+	});
+
+	describe('cancellation', () => {
+		it('cancels requests that time out', async () => {
+			mock.mockTimeout('query');
+			const errors: unknown[] = [];
+			instance!.on('error', (error) => errors.push(error));
+
+			await expect(instance!.query({ cadence, args: [], timeout: 20 })).rejects.toMatchObject({ code: 'timeout' });
+			expect(mock.cancellations).toEqual([mock.intents[0].id]);
+			expect(errors).toHaveLength(1);
+		});
+
+		it('cancels aborted requests', async () => {
+			mock.mockTimeout('query');
+			const controller = new AbortController();
+			const pending = instance!.query({ cadence, args: [], signal: controller.signal });
+
+			controller.abort();
+
+			await expect(pending).rejects.toMatchObject({ code: 'aborted' });
+			expect(mock.cancellations).toEqual([mock.intents[0].id]);
+		});
+
+		it('ignores replies to cancelled requests', async () => {
+			mock.mockQueryResult('late', { delay: 40 }).mockQueryResult('next');
+
+			await expect(instance!.query({ cadence, args: [], timeout: 10 })).rejects.toMatchObject({ code: 'timeout' });
+			await expect(instance!.query({ cadence, args: [] })).resolves.toBe('next');
+			await new Promise((resolve) => setTimeout(resolve, 50));
+		});
+	});
+
+	describe('errors', () => {
+		it('rejects with the code sent by the wallet', async () => {
+			mock.mockMutateRejection();
+			mock.mockError('query', 'not_supported', 'No scripts here');
+
+			await expect(instance!.mutate({ cadence, args: [] })).rejects.toMatchObject({ code: 'user_rejected' });
+			await expect(instance!.query({ cadence, args: [] })).rejects.toMatchObject({
+				code: 'not_supported',
+				message: 'No scripts here',
+				action: 'query',
+			});
+		});
+
+		it('maps unknown codes to unknown_error', async () => {
+			mock.mockError('query', 'boom', 'Something broke');
+
+			await expect(instance!.query({ cadence, args: [] })).rejects.toMatchObject({ code: 'unknown_error' });
+		});
+
+		it('rejects failed transactions', async () => {
+			mock.mockMutateFailure('0xdef');
+
+			await expect(instance!.mutate({ cadence, args: [] })).rejects.toMatchObject({ code: 'transaction_failed' });
+		});
+	});
+
+	describe('mock wallet', () => {
+		it('completes the handshake', async () => {
+			expect(mock.handshakes).toHaveLength(1);
+			expect(instance!.isConnected()).toBe(true);
+			expect(instance!.getNetwork()).toBe('flow-mainnet');
+			await expect(instance!.getUserAddress()).resolves.toBe('0x01');
+		});
+
+		it('answers mutates with the scripted transaction ID', async () => {
+			mock.mockMutateSuccess('0xabc');
+			const submitted = jest.fn();
+			instance!.on('tx:submitted', submitted);
+
+			await expect(instance!.mutate({ cadence, args: [] })).resolves.toBe('0xabc');
+			expect(submitted).toHaveBeenCalledTimes(1);
+			expect(mock.intents).toEqual([expect.objectContaining({ action: 'mutate' })]);
+		});
+
+		it('answers unscripted queries with null', async () => {
+			await expect(instance!.query({ cadence, args: [] })).resolves.toBeNull();
+		});
+	});
+
+	describe('destroy', () => {
+		it('rejects pending calls and later connections', async () => {
+			mock.mockTimeout('query');
+			const pending = instance!.query({ cadence, args: [], timeout: 0 });
+
+			instance!.destroy();
+
+			await expect(pending).rejects.toMatchObject({ code: 'connection_error' });
+			await expect(instance!.connect()).rejects.toMatchObject({ code: 'not_initialized' });
+			expect(mock.disconnects).toBe(1);
+		});
+	});
+
+	describe('account changes', () => {
+		it('emits account and network changes', async () => {
+			const accountChanged = jest.fn();
+			const networkChanged = jest.fn();
+			instance!.on('accountChanged', accountChanged);
+			instance!.on('networkChanged', networkChanged);
+
+			mock.setAccount('0x02', 'flow-testnet');
+
+			expect(accountChanged).toHaveBeenCalledWith({ address: '0x02', previousAddress: '0x01' });
+			expect(networkChanged).toHaveBeenCalledWith({ network: 'flow-testnet', previousNetwork: 'flow-mainnet' });
+			await expect(instance!.getUserAddress()).resolves.toBe('0x02');
+		});
+
+		it('ignores context messages after the frame disconnects', () => {
+			const accountChanged = jest.fn();
+			instance!.on('accountChanged', accountChanged);
+
+			instance!.disconnect();
+			mock.setAccount('0x02');
+
+			expect(accountChanged).not.toHaveBeenCalled();
+			expect(instance!.isConnected()).toBe(false);
+		});
+	});
+
+	describe('auto-resize', () => {
+		let resizeCallbacks: Array<() => void>;
+		let contentBottom: number;
+
+		beforeEach(() => {
+			resizeCallbacks = [];
+			contentBottom = 300;
+			(window as any).ResizeObserver = class {
+				private callback: () => void;
+				constructor(callback: () => void) {
+					this.callback = callback;
+					resizeCallbacks.push(callback);
+				}
+				observe() {}
+				disconnect() {
+					resizeCallbacks = resizeCallbacks.filter((callback) => callback !== this.callback);
+				}
+			};
+			jest
+				.spyOn(HTMLElement.prototype, 'getBoundingClientRect')
+				.mockImplementation(() => ({ bottom: contentBottom }) as DOMRect);
+			document.body.style.margin = '0';
+			document.body.appendChild(document.createElement('main'));
+		});
+
+		afterEach(() => {
+			delete (window as any).ResizeObserver;
+			document.body.removeAttribute('style');
+			document.body.innerHTML = '';
+			jest.restoreAllMocks();
+		});
+
+		it('reports the content height when it changes, once per animation frame', async () => {
+			const postMessage = jest.spyOn(window.parent, 'postMessage');
+			const getHeights = () =>
+				postMessage.mock.calls.map(([message]) => message).filter(({ type }) => type === 'rift:resize');
+
+			const stop = instance!.autoResize();
+			expect(getHeights()).toEqual([expect.objectContaining({ height: 300 })]);
+
+			contentBottom = 412.5;
+			resizeCallbacks.forEach((callback) => callback());
+			resizeCallbacks.forEach((callback) => callback());
+			await new Promise((resolve) => window.requestAnimationFrame(resolve));
+
+			stop();
+			contentBottom = 500;
+			resizeCallbacks.forEach((callback) => callback());
+			await new Promise((resolve) => window.requestAnimationFrame(resolve));
+
+			expect(getHeights()).toEqual([
+				expect.objectContaining({ height: 300 }),
+				expect.objectContaining({ height: 413 }),
+			]);
+		});
+	});
+
+	describe('theme', () => {
+		it('emits theme changes', () => {
+			const themeChanged = jest.fn();
+			instance!.on('themeChanged', themeChanged);
+
+			mock.setTheme({ mode: 'dark', accentColor: '#ff0000' });
+
+			expect(themeChanged).toHaveBeenCalledWith(expect.objectContaining({ mode: 'dark', accentColor: '#ff0000' }));
+			expect(instance!.theme).toEqual({ mode: 'dark', accentColor: '#ff0000' });
+		});
+
+		it('keeps the CSS variables of an element updated', () => {
+			const element = document.createElement('div');
+			const stop = instance!.applyTheme(element);
+
+			mock.setTheme({ mode: 'dark', accentColor: '#ff0000' });
+			stop();
+			mock.setTheme({ mode: 'light', accentColor: '#00ff00' });
+
+			expect(element.style.getPropertyValue('--rift-color-mode')).toBe('dark');
+			expect(element.style.getPropertyValue('--rift-accent-color')).toBe('#ff0000');
+		});
+	});
+
+	describe('frame identity', () => {
+		it('sends the identity of the frame with each intent', async () => {
+			await instance!.query({ cadence, args: [] });
+
+			expect(mock.intents[0].payload).toMatchObject({
+				cadence,
+				network: 'flow-mainnet',
+				rift: { frameId: 'mock-frame', origin: window.location.origin },
+			});
+		});
+	});
+
+	describe('missing wallet', () => {
+		afterEach(() => jest.useRealTimers());
+
+		it('rejects with wallet_unavailable when no wallet answers', async () => {
+			instance!.destroy();
+			mock.uninstall();
+			const silent = new MockWallet({ respondToHandshake: false }).install();
+
+			await expect(rift({ timeout: 50 })).rejects.toMatchObject({ code: 'wallet_unavailable' });
+			expect(silent.handshakes).toHaveLength(1);
+
+			silent.uninstall();
+		});
+
+		it('sends the handshake again until the wallet answers', async () => {
+			instance!.destroy();
+			mock.uninstall();
+			jest.useFakeTimers();
+			const silent = new MockWallet({ respondToHandshake: false }).install();
+
+			const connection = rift({ timeout: 5000 });
+			await jest.advanceTimersByTimeAsync(2000);
+			silent.uninstall();
+			mock.reset();
+			mock.install();
+			await jest.advanceTimersByTimeAsync(1500);
+
+			instance = await connection;
+			expect(silent.handshakes).toHaveLength(3);
+			expect(mock.handshakes).toHaveLength(1);
+			await expect(instance.getUserAddress()).resolves.toBe('0x01');
+		});
+
+		it('rejects with wallet_unavailable when the frame is not embedded', async () => {
+			instance!.destroy();
+			mock.uninstall();
+
+			await expect(rift({ timeout: 50 })).rejects.toMatchObject({ code: 'wallet_unavailable' });
+		});
+	});
+});
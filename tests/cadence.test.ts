@@ -0,0 +1,111 @@
+import { arg, decodeCadence, encodeArguments, isJsonCadenceValue, t } from '../src';
+
+describe('encodeArguments', () => {
+	it('encodes typed arguments and leaves raw values untouched', () => {
+		const raw = { type: 'String', value: 'raw' };
+
+		expect(encodeArguments([arg(42, t.UInt64), arg('0x01', t.Address), raw])).toEqual([
+			{ type: 'UInt64', value: '42' },
+			{ type: 'Address', value: '0x01' },
+			raw,
+		]);
+	});
+
+	it('pads fixed-point numbers to 8 decimals', () => {
+		expect(t.UFix64.encode('10.5')).toEqual({ type: 'UFix64', value: '10.50000000' });
+		expect(t.Fix64.encode(-3)).toEqual({ type: 'Fix64', value: '-3.00000000' });
+	});
+
+	it('encodes nested types', () => {
+		expect(t.Optional(t.String).encode(null)).toEqual({ type: 'Optional', value: null });
+		expect(t.Array(t.Bool).encode([true])).toEqual({ type: 'Array', value: [{ type: 'Bool', value: true }] });
+		expect(t.Dictionary(t.String, t.Int).encode({ a: 1 })).toEqual({
+			type: 'Dictionary',
+			value: [{ key: { type: 'String', value: 'a' }, value: { type: 'Int', value: '1' } }],
+		});
+		expect(t.Struct('A.0x1.Kitties.Kitty', { name: t.String }).encode({ name: 'Tom' })).toEqual({
+			type: 'Struct',
+			value: { id: 'A.0x1.Kitties.Kitty', fields: [{ name: 'name', value: { type: 'String', value: 'Tom' } }] },
+		});
+	});
+
+	it('rejects values not matching their type', () => {
+		expect(() => encodeArguments([arg(-1, t.UInt8)])).toThrow(expect.objectContaining({ code: 'invalid_payload' }));
+		expect(() => t.UFix64.encode('-1.0')).toThrow(expect.objectContaining({ code: 'invalid_payload' }));
+		expect(() => t.Address.encode('0xzz')).toThrow(expect.objectContaining({ code: 'invalid_payload' }));
+		expect(() => t.Character.encode('ab')).toThrow(expect.objectContaining({ code: 'invalid_payload' }));
+	});
+
+	it('checks the range of sized integers', () => {
+		expect(t.Int8.encode(-128)).toEqual({ type: 'Int8', value: '-128' });
+		expect(t.Word64.encode('18446744073709551615')).toEqual({ type: 'Word64', value: '18446744073709551615' });
+		expect(t.UInt256.encode(2n ** 200n)).toEqual({ type: 'UInt256', value: (2n ** 200n).toString() });
+		expect(t.Int.encode('-123456789012345678901234567890')).toEqual({
+			type: 'Int',
+			value: '-123456789012345678901234567890',
+		});
+
+		[
+			() => t.UInt8.encode(300),
+			() => t.Int8.encode(-1000),
+			() => t.Int8.encode(128),
+			() => t.Word16.encode(70000),
+		].forEach((encode) => expect(encode).toThrow(expect.objectContaining({ code: 'invalid_payload' })));
+		expect(t.UInt.encode('-0')).toEqual({ type: 'UInt', value: '0' });
+	});
+
+	it('rejects numbers beyond the safe integer range', () => {
+		expect(() => t.UInt256.encode(1e21)).toThrow(/pass integers beyond 2\^53 as strings or bigints/);
+		expect(() => t.Int.encode(1.5)).toThrow(expect.objectContaining({ code: 'invalid_payload' }));
+	});
+});
+
+describe('decodeCadence', () => {
+	it('decodes integers to numbers unless they are too large', () => {
+		expect(decodeCadence({ type: 'Int', value: '42' })).toBe(42);
+		expect(decodeCadence({ type: 'UInt256', value: '123456789012345678901234567890' })).toBe(
+			'123456789012345678901234567890',
+		);
+	});
+
+	it('keeps fixed-point numbers as strings', () => {
+		expect(decodeCadence({ type: 'UFix64', value: '10.50000000' })).toBe('10.50000000');
+		expect(decodeCadence({ type: 'Fix64', value: '-0.00000001' })).toBe('-0.00000001');
+	});
+
+	it('decodes nested values', () => {
+		expect(
+			decodeCadence({
+				type: 'Struct',
+				value: {
+					id: 'A.0x1.Kitties.Kitty',
+					fields: [
+						{ name: 'name', value: { type: 'Optional', value: { type: 'String', value: 'Tom' } } },
+						{ name: 'tags', value: { type: 'Array', value: [{ type: 'String', value: 'cat' }] } },
+						{
+							name: 'scores',
+							value: {
+								type: 'Dictionary',
+								value: [{ key: { type: 'String', value: 'a' }, value: { type: 'UInt8', value: '1' } }],
+							},
+						},
+					],
+				},
+			}),
+		).toEqual({ name: 'Tom', tags: ['cat'], scores: { a: 1 } });
+		expect(decodeCadence({ type: 'Void' })).toBeNull();
+	});
+
+	it('round-trips encoded arguments', () => {
+		const encoded = t.Array(t.Optional(t.UInt32)).encode([1, null]);
+		expect(decodeCadence(encoded)).toEqual([1, null]);
+	});
+});
+
+describe('isJsonCadenceValue', () => {
+	it('only matches known types', () => {
+		expect(isJsonCadenceValue({ type: 'Address', value: '0x01' })).toBe(true);
+		expect(isJsonCadenceValue({ type: 'Home', value: 'x' })).toBe(false);
+		expect(isJsonCadenceValue('Address')).toBe(false);
+	});
+});
@@ -0,0 +1,29 @@
+/**
+ * @jest-environment jsdom
+ */
+import { wallet } from '../src';
+
+const { WebConsentStorage } = wallet.consent;
+
+describe('WebConsentStorage', () => {
+	afterEach(() => window.localStorage.clear());
+
+	it('persists the allowed hosts in lowercase, once each', async () => {
+		const storage = new WebConsentStorage('rift:test-hosts');
+
+		await storage.allow('App.test');
+		await storage.allow('app.test');
+
+		expect(await new WebConsentStorage('rift:test-hosts').isAllowed('APP.TEST')).toBe(true);
+		expect(await storage.getAllowedHosts()).toEqual(['app.test']);
+
+		await storage.revoke('app.test');
+		expect(await storage.getAllowedHosts()).toEqual([]);
+	});
+
+	it('reads a corrupted entry as empty', async () => {
+		window.localStorage.setItem('rift:test-hosts', '{broken');
+
+		expect(await new WebConsentStorage('rift:test-hosts').getAllowedHosts()).toEqual([]);
+	});
+});
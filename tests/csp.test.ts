@@ -0,0 +1,99 @@
+/**
+ * @jest-environment jsdom
+ */
+import { wallet } from '../src';
+
+const { evaluateCsp, getCspFromDocument, getCspFromHeaders, parseCsp, RECOMMENDED_CSP } = wallet.csp;
+
+describe('parseCsp', () => {
+	it('parses each policy of a header, keeping the first occurrence of a directive', () => {
+		expect(parseCsp("default-src 'self'; Script-Src 'self' cdn.test; script-src *, img-src *")).toEqual([
+			{ 'default-src': ["'self'"], 'script-src': ["'self'", 'cdn.test'] },
+			{ 'img-src': ['*'] },
+		]);
+	});
+
+	it('reads headers case-insensitively', () => {
+		expect(getCspFromHeaders({ 'Content-Security-Policy': "default-src 'none'" })).toEqual([
+			{ 'default-src': ["'none'"] },
+		]);
+		expect(getCspFromHeaders({ 'content-type': 'text/html' })).toEqual([]);
+	});
+
+	it('reads fetch headers, leaving report-only policies out', () => {
+		const headers = new Headers({
+			'Content-Security-Policy': "default-src 'self'",
+			'Content-Security-Policy-Report-Only': 'default-src *',
+		});
+
+		expect(getCspFromHeaders(headers)).toEqual([{ 'default-src': ["'self'"] }]);
+	});
+
+	it('reads the meta tags of fetched HTML and parsed documents', () => {
+		const html = `<html><head>
+			<meta http-equiv="Content-Security-Policy" content="default-src 'self'; script-src 'self'">
+			<meta http-equiv="refresh" content="30">
+		</head></html>`;
+
+		expect(getCspFromDocument(html)).toEqual([{ 'default-src': ["'self'"], 'script-src': ["'self'"] }]);
+		expect(getCspFromDocument(new DOMParser().parseFromString('<p>No policy</p>', 'text/html'))).toEqual([]);
+	});
+});
+
+describe('evaluateCsp', () => {
+	it('secures the recommended policy', () => {
+		expect(evaluateCsp([RECOMMENDED_CSP])).toMatchObject({ secured: true, weakDirectives: [] });
+	});
+
+	it('accepts nonces and hashes', () => {
+		expect(evaluateCsp(["default-src 'none'; script-src 'nonce-abc' 'sha256-xyz'"]).secured).toBe(true);
+	});
+
+	it('reports missing policies', () => {
+		expect(evaluateCsp([])).toEqual({
+			secured: false,
+			policies: [],
+			weakDirectives: [
+				{ directive: 'default-src', sources: [], reason: 'Missing' },
+				{ directive: 'script-src', sources: [], reason: 'Missing' },
+			],
+		});
+	});
+
+	it('reports weak sources', () => {
+		const { secured, weakDirectives } = evaluateCsp(["default-src 'self'; script-src 'self' 'unsafe-inline' https:"]);
+
+		expect(secured).toBe(false);
+		expect(weakDirectives).toEqual([
+			{
+				directive: 'script-src',
+				sources: ["'self'", "'unsafe-inline'", 'https:'],
+				reason: "Allows 'unsafe-inline' https:",
+			},
+		]);
+	});
+
+	it('lets scripts fall back to default-src', () => {
+		expect(evaluateCsp(["img-src 'self'"]).weakDirectives.map(({ directive }) => directive)).toEqual([
+			'default-src',
+			'script-src',
+		]);
+	});
+
+	it('combines the policies of the headers and the document', () => {
+		const headers = new Headers({ 'Content-Security-Policy': 'img-src *' });
+		const html = `<meta http-equiv="Content-Security-Policy" content="${RECOMMENDED_CSP}">`;
+
+		expect(evaluateCsp([...getCspFromHeaders(headers), ...getCspFromDocument(html)])).toMatchObject({
+			secured: true,
+			weakDirectives: [],
+		});
+	});
+
+	it('is secured when one of the enforced policies is', () => {
+		const { secured, weakDirectives } = evaluateCsp(['default-src *', { 'default-src': ["'self'"] }]);
+
+		expect(secured).toBe(true);
+		expect(weakDirectives).toEqual([]);
+	});
+});
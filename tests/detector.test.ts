@@ -0,0 +1,168 @@
+/**
+ * @jest-environment jsdom
+ */
+import { buildRiftUri } from '../src';
+import { convertRiftUrl, RiftDetector, RiftDetectorOptions } from '../src/wallet/detector';
+
+describe('RiftDetector', () => {
+	let detector: RiftDetector;
+
+	afterEach(() => {
+		detector?.stop();
+		document.body.innerHTML = '';
+	});
+
+	/**
+	 * Wait for a scan to complete, its idle time slices fall back to timeouts in jsdom
+	 */
+	const waitForScan = async (scans: number = 1) => {
+		while (detector.getStats().scans < scans) {
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		}
+	};
+
+	describe('URI matching', () => {
+		it('reports the URIs built by buildRiftUri unchanged', async () => {
+			const uris = [
+				buildRiftUri({ host: 'a.com', appParams: { q: 'a*b' } }),
+				buildRiftUri({ host: 'a.com', fragment: 'x' }),
+				buildRiftUri({ host: 'a.com', path: "/it's" }),
+				buildRiftUri({ host: '[::1]:8080', path: '/mint', riftParams: { height: 'tall' } }),
+				buildRiftUri({ host: 'bücher.de' }),
+				buildRiftUri({ host: 'localhost:443', path: '/x' }),
+			];
+			const found: string[] = [];
+
+			document.body.innerHTML = uris.map((uri) => `<p>See ${uri}.</p>`).join('');
+			detector = new RiftDetector({ onRiftUriFound: (node, riftUrl) => found.push(riftUrl) });
+			detector.start();
+			await waitForScan();
+
+			expect(found.sort()).toEqual([...uris].sort());
+		});
+	});
+
+	describe('elements and shadow DOM', () => {
+		let texts: string[];
+		let elements: Array<{ element: Element; riftUrl: string; attribute: string }>;
+
+		const startDetector = (options: Partial<RiftDetectorOptions> = {}) => {
+			texts = [];
+			elements = [];
+			detector = new RiftDetector({
+				scanThrottle: 0,
+				onRiftUriFound: (node, riftUrl) => texts.push(riftUrl),
+				onRiftElementFound: (element, riftUrl, attribute) => elements.push({ element, riftUrl, attribute }),
+				...options,
+			});
+			detector.start();
+		};
+
+		it('reports links and listed attributes as elements, not as text', async () => {
+			document.body.innerHTML =
+				'<a href="rift://a.com">rift://a.com</a><div data-url="rift://b.com" title="rift://c.com"></div>';
+			startDetector({ scanAttributes: ['data-url'] });
+			await waitForScan();
+
+			expect(elements).toEqual([
+				{ element: document.querySelector('a'), riftUrl: 'rift://a.com', attribute: 'href' },
+				{ element: document.querySelector('div'), riftUrl: 'rift://b.com', attribute: 'data-url' },
+			]);
+			expect(texts).toEqual([]);
+		});
+
+		it('scans attributes again when they change', async () => {
+			document.body.innerHTML = '<a href="https://a.com">Link</a>';
+			startDetector();
+			await waitForScan();
+
+			document.querySelector('a')!.setAttribute('href', 'rift://a.com/mint');
+			await waitForScan(2);
+
+			expect(elements.map(({ riftUrl }) => riftUrl)).toEqual(['rift://a.com/mint']);
+		});
+
+		it('skips code, form fields and editors', async () => {
+			document.body.innerHTML =
+				'<code>rift://a.com</code><textarea>rift://b.com</textarea><div contenteditable="true">rift://c.com</div><p>rift://d.com</p>';
+			startDetector();
+			await waitForScan();
+
+			expect(texts).toEqual(['rift://d.com']);
+		});
+
+		it('scans open shadow roots, including those attached when a custom element upgrades', async () => {
+			const host = document.createElement('div');
+			host.attachShadow({ mode: 'open' }).innerHTML = '<p>rift://a.com</p>';
+			document.body.append(host, document.createElement('rift-card'));
+			startDetector();
+			await waitForScan();
+
+			customElements.define(
+				'rift-card',
+				class extends HTMLElement {
+					constructor() {
+						super();
+						this.attachShadow({ mode: 'open' }).innerHTML = '<a href="rift://b.com">Mint</a>';
+					}
+				},
+			);
+			await waitForScan(2);
+
+			expect(texts).toEqual(['rift://a.com']);
+			expect(elements.map(({ riftUrl }) => riftUrl)).toEqual(['rift://b.com']);
+		});
+	});
+
+	describe('incremental scanning', () => {
+		it('scans the changes made by its callbacks once', async () => {
+			document.body.innerHTML = '<p>Nothing yet</p><p>Try rift://b.com</p>';
+			const [first, second] = Array.from(document.querySelectorAll('p'));
+			const found: string[] = [];
+
+			detector = new RiftDetector({
+				onRiftUriFound: (node, riftUrl, range) => {
+					found.push(riftUrl);
+					range.surroundContents(document.createElement('span'));
+					if (node.parentElement === second) {
+						(first.firstChild as Text).data = 'Try rift://a.com';
+					}
+				},
+			});
+			detector.start();
+			await waitForScan();
+
+			expect(found).toEqual(['rift://b.com', 'rift://a.com']);
+			expect(second.innerHTML).toBe('Try <span>rift://b.com</span>');
+		});
+
+		it('splits scans over time slices and only scans changed subtrees again', async () => {
+			document.body.innerHTML = '<p>rift://a.com</p><p>Nothing</p><p>Nothing</p>';
+			const found: string[] = [];
+			detector = new RiftDetector({
+				scanBudget: 0,
+				scanThrottle: 0,
+				onRiftUriFound: (node, riftUrl) => found.push(riftUrl),
+			});
+			detector.start();
+			await waitForScan();
+
+			expect(detector.getStats()).toMatchObject({ scans: 1, nodesVisited: 7, urisFound: 1, pendingRoots: 0 });
+			expect(detector.getStats().slices).toBeGreaterThan(1);
+
+			const added = document.createElement('p');
+			added.textContent = 'rift://b.com';
+			document.body.appendChild(added);
+			await waitForScan(2);
+
+			expect(detector.getStats()).toMatchObject({ scans: 2, nodesVisited: 9, urisFound: 2 });
+			expect(found).toEqual(['rift://a.com', 'rift://b.com']);
+		});
+	});
+
+	describe('convertRiftUrl', () => {
+		it('keeps an explicit default port', () => {
+			expect(convertRiftUrl('rift://localhost:443/x?rift-height=tall')).toBe('https://localhost:443/x');
+		});
+	});
+});
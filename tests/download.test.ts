@@ -0,0 +1,26 @@
+/**
+ * @jest-environment jsdom
+ */
+import { buildDownloadLink, getCurrentRiftUri, getResumeLink, parseDownloadLink } from '../src';
+
+describe('download links', () => {
+	afterEach(() => window.history.replaceState(null, '', '/'));
+
+	it('round-trips a Rift URI, rift parameters included', () => {
+		const link = buildDownloadLink('rift://mydapp.com/mint?rift-height=tall#step-2', 'https://wallet.test/get');
+
+		expect(link).toBe('https://wallet.test/get?rift=rift%3A%2F%2Fmydapp.com%2Fmint%3Frift-height%3Dtall%23step-2');
+		expect(parseDownloadLink(link)).toBe('rift://mydapp.com/mint?rift-height=tall#step-2');
+		expect(parseDownloadLink('https://wallet.test/get?rift=https://mydapp.com')).toBeNull();
+		expect(() => buildDownloadLink('https://mydapp.com')).toThrow(expect.objectContaining({ code: 'invalid_payload' }));
+	});
+
+	it('resumes the current frame with the rift parameters it passes', () => {
+		window.history.replaceState(null, '', '/mint?id=1#details');
+
+		expect(getCurrentRiftUri({ height: 'tall', 'rift-color': '#ff0000' })).toBe(
+			'rift://localhost/mint?id=1&rift-height=tall&rift-color=%23ff0000#details',
+		);
+		expect(parseDownloadLink(getResumeLink('https://wallet.test/get'))).toBe('rift://localhost/mint?id=1#details');
+	});
+});
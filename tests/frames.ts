@@ -0,0 +1,55 @@
+/**
+ * Give iframes the `sandbox` token list jsdom lacks, backed by the attribute
+ */
+export function shimIframeSandbox(): void {
+	if ('sandbox' in HTMLIFrameElement.prototype) {
+		return;
+	}
+
+	Object.defineProperty(HTMLIFrameElement.prototype, 'sandbox', {
+		configurable: true,
+		get(this: HTMLIFrameElement) {
+			const iframe = this;
+			const tokens = () => (iframe.getAttribute('sandbox') || '').split(/\s+/).filter(Boolean);
+
+			return {
+				get value() {
+					return iframe.getAttribute('sandbox') || '';
+				},
+				set value(value: string) {
+					iframe.setAttribute('sandbox', value);
+				},
+				contains: (token: string) => tokens().includes(token),
+			};
+		},
+	});
+}
+
+/**
+ * Deliver a message to the page as if a frame posted it
+ * @param iframe The frame sending the message
+ * @param data The message
+ * @param origin Origin of the frame, 'null' for sandboxed frames without `allow-same-origin`
+ */
+export function postFromFrame(iframe: HTMLIFrameElement, data: any, origin: string = 'null'): void {
+	const event = new Event('message');
+
+	Object.defineProperties(event, {
+		data: { value: data },
+		origin: { value: origin },
+		source: { value: iframe.contentWindow },
+	});
+
+	window.dispatchEvent(event);
+}
+
+/**
+ * Create a link to a Rift URI in the document body
+ */
+export function createRiftLink(uri: string): HTMLAnchorElement {
+	const link = document.createElement('a');
+	link.href = uri;
+	link.textContent = uri;
+	document.body.appendChild(link);
+	return link;
+}
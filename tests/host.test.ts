@@ -0,0 +1,263 @@
+/**
+ * @jest-environment jsdom
+ */
+import { ERROR_CODES, RiftError, RiftMessage } from '../src';
+import { getFrameId } from '../src/wallet/helpers';
+import { RiftHost, RiftHostHandlers } from '../src/wallet/host';
+import { postFromFrame, shimIframeSandbox } from './frames';
+
+shimIframeSandbox();
+
+const cadence = 'access(all) fun main(): Int { return 1 }';
+
+describe('RiftHost', () => {
+	let host: RiftHost;
+	let handlers: RiftHostHandlers;
+	let frame: HTMLIFrameElement;
+	let sent: RiftMessage[];
+
+	/**
+	 * Wait for the host to answer, its handlers are async
+	 */
+	const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+	/**
+	 * Build an intent of the frame under test, its identity can be overridden
+	 */
+	const createIntent = (
+		action: string,
+		id: string,
+		rift: { frameId: string | null; origin: string } = { frameId: getFrameId(frame), origin: 'https://app.test' },
+	) => ({
+		type: 'rift:intent',
+		id,
+		action,
+		payload: { cadence, args: [], network: 'flow-testnet', rift: { ...rift, riftVersion: '0.1.0', timestamp: 0 } },
+	});
+
+	beforeEach(() => {
+		frame = document.createElement('iframe');
+		frame.src = 'https://app.test/mint';
+		frame.setAttribute('sandbox', 'allow-scripts');
+		document.body.appendChild(frame);
+
+		sent = [];
+		jest.spyOn(frame.contentWindow!, 'postMessage').mockImplementation((message: any) => sent.push(message));
+
+		handlers = {
+			getContext: jest.fn(async () => ({ address: '0x01', network: 'flow-testnet' })),
+			query: jest.fn(async () => 42),
+			mutate: jest.fn(async () => '0xabc'),
+		};
+		host = new RiftHost({ handlers });
+		host.attach(frame);
+	});
+
+	afterEach(() => {
+		host.destroy();
+		document.body.innerHTML = '';
+		jest.restoreAllMocks();
+	});
+
+	describe('handshake', () => {
+		it('answers with the wallet context and the accent color of the frame', async () => {
+			const onHandshake = jest.fn();
+			host.destroy();
+			host = new RiftHost({ handlers, capabilities: ['query'], onHandshake });
+			host.attach(frame);
+			frame.setAttribute('data-rift-color', '#ff0000');
+
+			postFromFrame(frame, { type: 'rift:handshake', riftVersion: '0.1.0', capabilities: ['query', 'mutate'] });
+			await flush();
+
+			expect(sent).toEqual([
+				expect.objectContaining({
+					type: 'rift:context',
+					address: '0x01',
+					network: 'flow-testnet',
+					capabilities: ['query'],
+					frameId: getFrameId(frame),
+					theme: expect.objectContaining({ accentColor: '#ff0000' }),
+				}),
+			]);
+			expect(onHandshake).toHaveBeenCalledWith(
+				frame,
+				{ address: '0x01', network: 'flow-testnet' },
+				expect.objectContaining({ type: 'rift:handshake' }),
+			);
+		});
+
+		it('reports a wallet failing to resolve its context as unavailable', async () => {
+			handlers.getContext = jest.fn(async () => {
+				throw new Error('Wallet is locked');
+			});
+
+			postFromFrame(frame, { type: 'rift:handshake' });
+			await flush();
+
+			expect(sent).toEqual([
+				expect.objectContaining({ type: 'rift:error', code: 'wallet_unavailable', message: 'Wallet is locked' }),
+			]);
+		});
+
+		it('answers the handshakes a frame repeats while its context resolves once', async () => {
+			let unlock: () => void = () => {};
+			handlers.getContext = jest.fn(
+				() => new Promise((resolve) => (unlock = () => resolve({ address: '0x01', network: 'flow-testnet' }))),
+			);
+
+			postFromFrame(frame, { type: 'rift:handshake' });
+			postFromFrame(frame, { type: 'rift:handshake' });
+			unlock();
+			await flush();
+
+			expect(handlers.getContext).toHaveBeenCalledTimes(1);
+			expect(sent).toEqual([expect.objectContaining({ type: 'rift:context', address: '0x01' })]);
+
+			postFromFrame(frame, { type: 'rift:handshake' });
+			await flush();
+
+			expect(handlers.getContext).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe('accent color', () => {
+		it('sends a fresh context when the color of a connected frame changes', async () => {
+			frame.setAttribute('data-rift-color', '#00ff00');
+			await flush();
+			expect(sent).toEqual([]);
+
+			postFromFrame(frame, { type: 'rift:handshake' });
+			await flush();
+			frame.setAttribute('data-rift-color', '#ff0000');
+			await flush();
+
+			expect(sent).toEqual([
+				expect.objectContaining({ type: 'rift:context', theme: expect.objectContaining({ accentColor: '#00ff00' }) }),
+				expect.objectContaining({ type: 'rift:context', theme: expect.objectContaining({ accentColor: '#ff0000' }) }),
+			]);
+
+			host.detach(frame);
+			frame.setAttribute('data-rift-color', '#0000ff');
+			await flush();
+
+			expect(sent).toHaveLength(2);
+		});
+	});
+
+	describe('intents', () => {
+		it('answers each intent with the result of its handler', async () => {
+			postFromFrame(frame, createIntent('query', 'request-1'));
+			postFromFrame(frame, createIntent('mutate', 'request-2'));
+			await flush();
+
+			expect(handlers.query).toHaveBeenCalledWith(expect.objectContaining({ cadence }), frame, expect.any(AbortSignal));
+			expect(sent).toEqual([
+				expect.objectContaining({ type: 'rift:queryResult', result: 42, requestId: 'request-1' }),
+				expect.objectContaining({
+					type: 'rift:mutateResult',
+					status: 'success',
+					txId: '0xabc',
+					requestId: 'request-2',
+				}),
+			]);
+		});
+
+		it('passes the code of handler errors to the frame', async () => {
+			handlers.mutate = jest.fn(async () => {
+				throw new RiftError(ERROR_CODES.USER_REJECTED, 'Declined');
+			});
+
+			postFromFrame(frame, createIntent('mutate', 'request-1'));
+			await flush();
+
+			expect(sent).toEqual([
+				expect.objectContaining({
+					type: 'rift:error',
+					code: 'user_rejected',
+					message: 'Declined',
+					requestId: 'request-1',
+				}),
+			]);
+		});
+
+		it('rejects malformed intents and actions outside its capabilities', async () => {
+			host.destroy();
+			host = new RiftHost({ handlers, capabilities: ['query'] });
+			host.attach(frame);
+
+			postFromFrame(frame, { type: 'rift:intent', id: 'request-1', action: 'query', payload: { cadence } });
+			postFromFrame(frame, createIntent('mutate', 'request-2'));
+			await flush();
+
+			expect(handlers.mutate).not.toHaveBeenCalled();
+			expect(sent).toEqual([
+				expect.objectContaining({ type: 'rift:error', code: 'invalid_payload', requestId: 'request-1' }),
+				expect.objectContaining({ type: 'rift:error', code: 'not_supported', requestId: 'request-2' }),
+			]);
+		});
+
+		it('aborts the intents the frame cancels without answering them', async () => {
+			let signal: AbortSignal | null = null;
+			const onCancel = jest.fn();
+			handlers.mutate = jest.fn((payload, intentFrame, intentSignal) => {
+				signal = intentSignal;
+				return new Promise<string>((resolve) => intentSignal.addEventListener('abort', () => resolve('0xabc')));
+			});
+			host.destroy();
+			host = new RiftHost({ handlers, onCancel });
+			host.attach(frame);
+
+			postFromFrame(frame, createIntent('mutate', 'request-1'));
+			await flush();
+			postFromFrame(frame, { type: 'rift:cancel', requestId: 'request-1' });
+			await flush();
+
+			expect(signal!.aborted).toBe(true);
+			expect(onCancel).toHaveBeenCalledWith(frame, 'request-1');
+			expect(sent).toEqual([]);
+		});
+
+		it('ignores messages from frames it is not attached to', async () => {
+			host.detach(frame);
+
+			postFromFrame(frame, createIntent('query', 'request-1'));
+			await flush();
+
+			expect(handlers.query).not.toHaveBeenCalled();
+			expect(sent).toEqual([]);
+		});
+	});
+
+	describe('frame identity', () => {
+		const query = (rift: { frameId: string | null; origin: string }) => createIntent('query', 'request-1', rift);
+
+		it('accepts intents claiming the origin of the frame URL', async () => {
+			postFromFrame(frame, query({ frameId: getFrameId(frame), origin: 'https://app.test' }));
+			await flush();
+
+			expect(handlers.query).toHaveBeenCalledTimes(1);
+			expect(sent).toEqual([expect.objectContaining({ type: 'rift:queryResult', result: 42, requestId: 'request-1' })]);
+		});
+
+		it('rejects intents claiming another origin, the opaque one included', async () => {
+			postFromFrame(frame, query({ frameId: null, origin: 'null' }));
+			postFromFrame(frame, query({ frameId: null, origin: 'https://evil.test' }));
+			await flush();
+
+			expect(handlers.query).not.toHaveBeenCalled();
+			expect(sent).toEqual([
+				expect.objectContaining({ type: 'rift:error', code: 'invalid_payload' }),
+				expect.objectContaining({ type: 'rift:error', code: 'invalid_payload' }),
+			]);
+		});
+
+		it('rejects intents claiming another frame ID', async () => {
+			postFromFrame(frame, query({ frameId: 'other-frame', origin: 'https://app.test' }));
+			await flush();
+
+			expect(handlers.query).not.toHaveBeenCalled();
+			expect(sent).toEqual([expect.objectContaining({ type: 'rift:error', code: 'invalid_payload' })]);
+		});
+	});
+});
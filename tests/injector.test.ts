@@ -0,0 +1,485 @@
+/**
+ * @jest-environment jsdom
+ */
+import { FrameHeightPreset, IframeInjector, IframeInjectorOptions, RiftFrameState } from '../src/wallet/injector';
+import { MemoryConsentStorage } from '../src/wallet/consent';
+import { getFrameId } from '../src/wallet/helpers';
+import { RiftHost } from '../src/wallet/host';
+import { RiftFrameMetadata } from '../src/wallet/metadata';
+import { StaticRiftRegistry } from '../src/wallet/registry';
+import { createRiftLink, postFromFrame, shimIframeSandbox } from './frames';
+
+shimIframeSandbox();
+
+describe('IframeInjector', () => {
+	let injector: IframeInjector;
+	let link: HTMLAnchorElement;
+
+	const createInjector = (options: IframeInjectorOptions = {}) => {
+		injector = new IframeInjector(options);
+		return injector;
+	};
+
+	beforeEach(() => {
+		link = createRiftLink('rift://app.test/mint');
+	});
+
+	afterEach(() => {
+		injector?.destroy();
+		document.body.innerHTML = '';
+		jest.useRealTimers();
+		jest.restoreAllMocks();
+	});
+
+	describe('lifecycle', () => {
+		let states: RiftFrameState[];
+		let warn: jest.SpyInstance;
+
+		beforeEach(() => {
+			jest.useFakeTimers();
+			states = [];
+			warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+		});
+
+		const createTrackedInjector = (options: IframeInjectorOptions = {}) =>
+			createInjector({
+				frameTimeout: 1000,
+				retryDelay: 100,
+				maxRetries: 2,
+				onFrameStateChange: ({ state }) => states.push(state),
+				...options,
+			});
+
+		it('is ready once the frame sends its handshake', async () => {
+			createTrackedInjector();
+			const iframe = (await injector.injectFrame(link, 'rift://app.test/mint'))!;
+
+			iframe.dispatchEvent(new Event('load'));
+			postFromFrame(iframe, { type: 'rift:handshake' });
+			jest.advanceTimersByTime(10000);
+
+			expect(states).toEqual(['pending', 'loading', 'handshaking', 'ready']);
+			expect(iframe.isConnected).toBe(true);
+		});
+
+		it('reloads frames that load without a handshake, then restores the link', async () => {
+			const onIframeError = jest.fn();
+			createTrackedInjector({ onIframeError });
+			const iframe = (await injector.injectFrame(link, 'rift://app.test/mint'))!;
+
+			for (let attempt = 0; attempt < 3; attempt++) {
+				iframe.dispatchEvent(new Event('load'));
+				jest.advanceTimersByTime(1000);
+				jest.advanceTimersByTime(100 * 2 ** attempt);
+			}
+
+			expect(states.filter((state) => state === 'loading')).toHaveLength(3);
+			expect(states.slice(-2)).toEqual(['failed', 'removed']);
+			expect(onIframeError).toHaveBeenCalledTimes(1);
+			expect(iframe.isConnected).toBe(false);
+			expect(link.style.display).toBe('');
+			expect(injector.getFrameState(link)).toBeNull();
+			expect(document.body.textContent).toBe('rift://app.test/mint');
+		});
+
+		it('keeps frames without a handshake when the handshake is not required', async () => {
+			createTrackedInjector({ requireHandshake: false });
+			const iframe = (await injector.injectFrame(link, 'rift://app.test/mint'))!;
+
+			iframe.dispatchEvent(new Event('load'));
+			jest.advanceTimersByTime(10000);
+
+			expect(states).toEqual(['pending', 'loading', 'handshaking']);
+		});
+
+		it('ignores errors while a reload is pending', async () => {
+			createTrackedInjector({ maxRetries: 1 });
+			const iframe = (await injector.injectFrame(link, 'rift://app.test/mint'))!;
+
+			jest.advanceTimersByTime(1000);
+			iframe.dispatchEvent(new Event('error'));
+			jest.advanceTimersByTime(100 + 999);
+
+			expect(warn).toHaveBeenCalledTimes(1);
+			expect(injector.getFrameState(link)).toBe('loading');
+
+			jest.advanceTimersByTime(1);
+			expect(states.slice(-2)).toEqual(['failed', 'removed']);
+		});
+
+		it('keeps failed frames with the keep fallback and accepts their late handshake', async () => {
+			createTrackedInjector({ maxRetries: 0, fallback: 'keep' });
+			const iframe = (await injector.injectFrame(link, 'rift://app.test/mint'))!;
+
+			jest.advanceTimersByTime(1000);
+			postFromFrame(iframe, { type: 'rift:handshake' });
+
+			expect(states).toEqual(['pending', 'loading', 'failed', 'ready']);
+			expect(iframe.isConnected).toBe(true);
+		});
+	});
+
+	describe('trust', () => {
+		const registry = new StaticRiftRegistry({ verified: ['*.trusted.test'], blocked: ['scam.test'] });
+
+		it('resolves to the iframe of verified hosts without asking the user', async () => {
+			const confirmInjection = jest.fn(() => true);
+			createInjector({ registry, confirmInjection });
+			const trustedLink = createRiftLink('rift://mint.trusted.test');
+
+			const iframe = await injector.injectFrame(trustedLink, 'rift://mint.trusted.test');
+
+			expect(iframe?.src).toBe('https://mint.trusted.test/');
+			expect(iframe?.getAttribute('data-rift-trust')).toBe('verified');
+			expect(confirmInjection).not.toHaveBeenCalled();
+		});
+
+		it('asks before injecting unverified hosts', async () => {
+			const confirmInjection = jest.fn(() => false);
+			createInjector({ registry, confirmInjection });
+
+			expect(await injector.injectFrame(link, 'rift://app.test/mint')).toBeNull();
+			expect(confirmInjection).toHaveBeenCalledWith(
+				expect.objectContaining({ host: 'app.test', trustLevel: 'unverified' }),
+			);
+			expect(document.querySelector('iframe')).toBeNull();
+			expect(link.isConnected).toBe(true);
+		});
+
+		it('never injects hosts blocked by the registry or the options', async () => {
+			jest.spyOn(console, 'warn').mockImplementation(() => {});
+			const onIframeBlocked = jest.fn();
+			createInjector({ registry, blockedHosts: ['app.test'], onIframeBlocked });
+			const scamLink = createRiftLink('rift://scam.test');
+
+			expect(await injector.injectFrame(link, 'rift://app.test/mint')).toBeNull();
+			expect(await injector.injectFrame(scamLink, 'rift://scam.test')).toBeNull();
+			expect(onIframeBlocked.mock.calls).toEqual([
+				[link, 'rift://app.test/mint', 'app.test'],
+				[scamLink, 'rift://scam.test', 'scam.test'],
+			]);
+			expect(document.querySelector('iframe')).toBeNull();
+		});
+
+		it('shares the pending injection of an element', async () => {
+			createInjector({ registry });
+
+			const first = injector.injectFrame(link, 'rift://app.test/mint');
+			const second = injector.injectFrame(link, 'rift://app.test/mint');
+
+			expect(await first).toBe(await second);
+			expect(document.querySelectorAll('iframe')).toHaveLength(1);
+		});
+	});
+
+	describe('click-to-load', () => {
+		const getLoadButton = () =>
+			Array.from(document.querySelectorAll('button')).find((button) => button.textContent === 'Load')!;
+
+		it('loads the frame once the user clicks the card', async () => {
+			createInjector({ clickToLoad: true });
+
+			expect(await injector.injectFrame(link, 'rift://app.test/mint')).toBeNull();
+			expect(document.querySelector('[data-rift-consent]')?.getAttribute('aria-label')).toBe(
+				'Rift frame from app.test',
+			);
+			expect(document.querySelector('iframe')).toBeNull();
+			expect(injector.getFrameState(link)).toBe('pending');
+
+			getLoadButton().click();
+
+			expect(document.querySelector('[data-rift-consent]')).toBeNull();
+			expect(document.querySelector('iframe')?.src).toBe('https://app.test/mint');
+		});
+
+		it('remembers hosts the user always allows for every card and later frames', async () => {
+			const consentStorage = new MemoryConsentStorage();
+			const otherLink = createRiftLink('rift://app.test/other');
+			createInjector({ clickToLoad: true, consentStorage });
+			await injector.injectFrame(link, 'rift://app.test/mint');
+			await injector.injectFrame(otherLink, 'rift://app.test/other');
+
+			document.querySelector<HTMLInputElement>('[data-rift-consent] input[type="checkbox"]')!.checked = true;
+			getLoadButton().click();
+
+			expect(document.querySelectorAll('iframe')).toHaveLength(2);
+			expect(await consentStorage.getAllowedHosts()).toEqual(['app.test']);
+
+			const laterLink = createRiftLink('rift://app.test/later');
+			expect(await injector.injectFrame(laterLink, 'rift://app.test/later')).not.toBeNull();
+		});
+	});
+
+	describe('metadata', () => {
+		const metadata = {
+			title: 'Mint',
+			description: 'Claim your NFT',
+			image: null,
+			siteName: 'My Dapp',
+			url: null,
+			height: FrameHeightPreset.TALL,
+			color: '#ff0000',
+		};
+
+		it('shows a preview card and applies the height and color while the frame loads', async () => {
+			const iframe = (await createInjector({ getFrameMetadata: async () => metadata }).injectFrame(
+				link,
+				'rift://app.test/mint',
+			))!;
+			await Promise.resolve();
+
+			expect(document.querySelector('[data-rift-preview]')?.textContent).toBe('MintClaim your NFTLoading My Dapp...');
+			expect(iframe.height).toBe('500px');
+			expect(iframe.getAttribute('data-rift-color')).toBe('#ff0000');
+
+			iframe.dispatchEvent(new Event('load'));
+			expect(document.querySelector('[data-rift-preview]')).toBeNull();
+		});
+
+		it('applies the color of metadata resolving after the handshake', async () => {
+			let resolveMetadata: (value: RiftFrameMetadata) => void = () => {};
+			createInjector({ getFrameMetadata: () => new Promise((resolve) => (resolveMetadata = resolve)) });
+			const iframe = (await injector.injectFrame(link, 'rift://app.test/mint'))!;
+
+			iframe.dispatchEvent(new Event('load'));
+			postFromFrame(iframe, { type: 'rift:handshake' });
+			resolveMetadata(metadata);
+			await Promise.resolve();
+
+			expect(injector.getFrameState(link)).toBe('ready');
+			expect(iframe.getAttribute('data-rift-color')).toBe('#ff0000');
+			expect(document.querySelector('[data-rift-preview]')).toBeNull();
+		});
+	});
+
+	describe('resize', () => {
+		it('applies the height frames report within the bounds', async () => {
+			const iframe = (await createInjector({ minFrameHeight: 100, maxFrameHeight: 600 }).injectFrame(
+				link,
+				'rift://app.test/mint?rift-height=compact',
+			))!;
+			expect(iframe.height).toBe('200px');
+
+			postFromFrame(iframe, { type: 'rift:resize', height: 412.4 });
+			expect(iframe.height).toBe('412px');
+
+			postFromFrame(iframe, { type: 'rift:resize', height: 5000 });
+			expect(iframe.height).toBe('600px');
+
+			postFromFrame(iframe, { type: 'rift:resize', height: 'tall' });
+			postFromFrame(iframe, { type: 'rift:resize', height: 10 });
+			expect(iframe.height).toBe('100px');
+		});
+
+		it('keeps the preset height when auto-resize is disabled', async () => {
+			const iframe = (await createInjector({ allowAutoResize: false }).injectFrame(link, 'rift://app.test/mint'))!;
+
+			postFromFrame(iframe, { type: 'rift:resize', height: 412 });
+
+			expect(iframe.height).toBe('350px');
+		});
+	});
+
+	describe('lazy loading', () => {
+		/**
+		 * Intersection observer driven by the tests, jsdom has none
+		 */
+		class FakeIntersectionObserver {
+			public static instances: FakeIntersectionObserver[] = [];
+			public targets: Set<Element> = new Set();
+			private callback: IntersectionObserverCallback;
+
+			constructor(callback: IntersectionObserverCallback) {
+				this.callback = callback;
+				FakeIntersectionObserver.instances.push(this);
+			}
+
+			public observe(target: Element): void {
+				this.targets.add(target);
+			}
+
+			public unobserve(target: Element): void {
+				this.targets.delete(target);
+			}
+
+			public disconnect(): void {
+				this.targets.clear();
+			}
+
+			public trigger(target: Element, isIntersecting: boolean): void {
+				this.callback([{ target, isIntersecting } as IntersectionObserverEntry], this as any);
+			}
+		}
+
+		const getPlaceholder = () => document.querySelector('[data-rift-placeholder]')!;
+
+		beforeEach(() => {
+			FakeIntersectionObserver.instances = [];
+			(window as any).IntersectionObserver = FakeIntersectionObserver;
+		});
+
+		afterEach(() => {
+			delete (window as any).IntersectionObserver;
+		});
+
+		it('loads a placeholder once it nears the viewport', async () => {
+			const onIframeInjected = jest.fn();
+			createInjector({ lazy: true, onIframeInjected });
+
+			expect(await injector.injectFrame(link, 'rift://app.test/mint')).toBeNull();
+			expect(document.querySelector('iframe')).toBeNull();
+
+			const [loadObserver] = FakeIntersectionObserver.instances;
+			loadObserver.trigger(getPlaceholder(), true);
+
+			expect(onIframeInjected).toHaveBeenCalledWith(document.querySelector('iframe'), link, 'unverified');
+			expect(getPlaceholder()).toBeNull();
+			expect(injector.getFrameState(link)).toBe('loading');
+		});
+
+		it('detaches unloaded frames from the host, aborting their intents', async () => {
+			let signal: AbortSignal | null = null;
+			const host = new RiftHost({
+				handlers: {
+					getContext: async () => ({ address: '0x01', network: 'flow-testnet' }),
+					query: async () => null,
+					mutate: (payload, frame, intentSignal) => {
+						signal = intentSignal;
+						return new Promise(() => {});
+					},
+				},
+			});
+			createInjector({
+				lazy: true,
+				unloadOffscreen: true,
+				onIframeInjected: (iframe) => host.attach(iframe),
+				onIframeRemoved: (iframe) => host.detach(iframe),
+			});
+			await injector.injectFrame(link, 'rift://app.test/mint');
+			const [loadObserver, unloadObserver] = FakeIntersectionObserver.instances;
+			loadObserver.trigger(getPlaceholder(), true);
+			const iframe = document.querySelector('iframe')!;
+
+			postFromFrame(iframe, {
+				type: 'rift:intent',
+				id: 'request-1',
+				action: 'mutate',
+				payload: {
+					cadence: 'transaction {}',
+					args: [],
+					network: 'flow-testnet',
+					rift: { frameId: getFrameId(iframe), origin: 'https://app.test', riftVersion: '0.1.0', timestamp: 0 },
+				},
+			});
+			await Promise.resolve();
+			unloadObserver.trigger(iframe, false);
+
+			expect(signal!.aborted).toBe(true);
+			expect(host.getFrames()).toEqual([]);
+			expect(iframe.isConnected).toBe(false);
+
+			loadObserver.trigger(getPlaceholder(), true);
+			expect(host.getFrames()).toEqual([iframe]);
+			host.destroy();
+		});
+
+		it('keeps frames beyond the cap waiting until a slot frees up', async () => {
+			const otherLink = createRiftLink('rift://other.test');
+			createInjector({ maxLiveFrames: 1 });
+
+			const iframe = await injector.injectFrame(link, 'rift://app.test/mint');
+			expect(await injector.injectFrame(otherLink, 'rift://other.test')).toBeNull();
+			expect(injector.getFrameState(otherLink)).toBe('pending');
+
+			injector.removeFrame(link);
+
+			expect(iframe?.isConnected).toBe(false);
+			expect(document.querySelector('iframe')?.src).toBe('https://other.test/');
+			expect(injector.getFrameState(otherLink)).toBe('loading');
+		});
+	});
+
+	describe('channels', () => {
+		it('routes the messages of each frame to its own channel', async () => {
+			const otherLink = createRiftLink('rift://other.test');
+			createInjector();
+			const iframe = (await injector.injectFrame(link, 'rift://app.test/mint'))!;
+			const otherIframe = (await injector.injectFrame(otherLink, 'rift://other.test'))!;
+			const channel = injector.getChannel(iframe)!;
+			const received: any[] = [];
+			const stop = channel.onMessage((message) => received.push(message));
+
+			postFromFrame(iframe, { type: 'app:ping' });
+			postFromFrame(otherIframe, { type: 'app:other' });
+			postFromFrame(iframe, { type: 'app:spoofed' }, 'https://evil.test');
+			stop();
+			postFromFrame(iframe, { type: 'app:late' });
+
+			expect(channel.element).toBe(link);
+			expect(channel.riftUrl).toBe('rift://app.test/mint');
+			expect(received).toEqual([{ type: 'app:ping' }]);
+		});
+
+		it('keeps dispatching when a listener throws', async () => {
+			jest.spyOn(console, 'error').mockImplementation(() => {});
+			const iframe = (await createInjector().injectFrame(link, 'rift://app.test/mint'))!;
+			const channel = injector.getChannel(iframe)!;
+			const listener = jest.fn();
+			channel.onMessage(() => {
+				throw new Error('Broken listener');
+			});
+			channel.onMessage(listener);
+
+			postFromFrame(iframe, { type: 'app:ping' });
+
+			expect(listener).toHaveBeenCalledWith({ type: 'app:ping' }, expect.any(Event));
+		});
+
+		it('posts to the frame and is closed with it', async () => {
+			const iframe = (await createInjector().injectFrame(link, 'rift://app.test/mint'))!;
+			const postMessage = jest.spyOn(iframe.contentWindow!, 'postMessage').mockImplementation(() => {});
+			const channel = injector.getChannel(iframe)!;
+			const listener = jest.fn();
+			channel.onMessage(listener);
+
+			channel.send({ type: 'app:refresh' });
+			injector.removeFrame(link);
+			postFromFrame(iframe, { type: 'app:ping' });
+
+			expect(postMessage).toHaveBeenCalledWith({ type: 'app:refresh' }, '*');
+			expect(listener).not.toHaveBeenCalled();
+			expect(injector.getChannel(iframe)).toBeNull();
+		});
+	});
+
+	describe('loading indicator', () => {
+		const getLoadingMessage = () =>
+			Array.from(document.body.querySelectorAll('div')).find((div) => div.textContent === 'Loading Rift content...');
+
+		it('is removed once the frame loads', async () => {
+			const iframe = (await createInjector().injectFrame(link, 'rift://app.test/mint'))!;
+			expect(getLoadingMessage()).toBeDefined();
+
+			iframe.dispatchEvent(new Event('load'));
+
+			expect(getLoadingMessage()).toBeUndefined();
+		});
+
+		it('is removed with a frame that never loaded', async () => {
+			await createInjector().injectFrame(link, 'rift://app.test/mint');
+
+			injector.removeFrame(link);
+
+			expect(getLoadingMessage()).toBeUndefined();
+			expect(document.body.textContent).toBe('rift://app.test/mint');
+		});
+
+		it('is removed when the injector is destroyed', async () => {
+			await createInjector().injectFrame(link, 'rift://app.test/mint');
+
+			injector.destroy();
+
+			expect(getLoadingMessage()).toBeUndefined();
+		});
+	});
+});
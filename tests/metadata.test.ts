@@ -0,0 +1,56 @@
+/**
+ * @jest-environment jsdom
+ */
+import { wallet } from '../src';
+
+const { mergeFrameMetadata, parseFrameMetadata } = wallet.metadata;
+
+describe('parseFrameMetadata', () => {
+	it('reads OpenGraph and rift meta tags, resolving relative URLs', () => {
+		const html = `<html><head>
+			<title>Page title</title>
+			<meta property="og:title" content=" Mint ">
+			<meta name="og:description" content="Claim your NFT">
+			<meta property="og:image" content="/preview.jpg">
+			<meta property="og:site_name" content="My Dapp">
+			<meta property="rift:height" content="Tall">
+			<meta property="rift:color" content="#FF0000">
+		</head></html>`;
+
+		expect(parseFrameMetadata(html, 'https://mydapp.com/mint')).toEqual({
+			title: 'Mint',
+			description: 'Claim your NFT',
+			image: 'https://mydapp.com/preview.jpg',
+			siteName: 'My Dapp',
+			url: null,
+			height: 'tall',
+			color: '#ff0000',
+		});
+	});
+
+	it('falls back to the page title and drops invalid values', () => {
+		const html = `<title>Page title</title>
+			<meta property="og:image" content="javascript:alert(1)">
+			<meta property="rift:height" content="huge">
+			<meta property="rift:color" content="red">`;
+
+		expect(parseFrameMetadata(html, 'https://mydapp.com')).toMatchObject({
+			title: 'Page title',
+			image: null,
+			height: null,
+			color: null,
+		});
+	});
+});
+
+describe('mergeFrameMetadata', () => {
+	it('prefers meta tags over the rift parameters of the URI', () => {
+		const metadata = parseFrameMetadata('<meta property="rift:color" content="#00ff00">');
+
+		expect(mergeFrameMetadata(metadata, { height: 'compact', color: 'ff0000' })).toMatchObject({
+			height: 'compact',
+			color: '#00ff00',
+		});
+		expect(mergeFrameMetadata(null, { color: 'ff0000' })).toMatchObject({ title: null, color: '#ff0000' });
+	});
+});
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, createElement, ReactNode } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { arg, t } from '../src';
+import {
+	RiftContextValue,
+	RiftProvider,
+	useMutate,
+	UseMutateResult,
+	useQuery,
+	UseQueryResult,
+	useRift,
+} from '../src/react';
+import { MockWallet } from '../src/testing';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const cadence = 'access(all) fun main(id: UInt64): UInt64 { return id }';
+
+describe('React bindings', () => {
+	let mock: MockWallet | null;
+	let root: Root | null;
+
+	/**
+	 * Render an element in a fresh root
+	 */
+	const render = async (element: ReactNode) => {
+		root = createRoot(document.createElement('div'));
+		await act(async () => root!.render(element));
+	};
+
+	/**
+	 * Let the bridge and the wallet exchange their messages
+	 */
+	const settle = () => act(() => new Promise((resolve) => setTimeout(resolve, 20)));
+
+	/**
+	 * Render a hook inside a provider and expose its latest value
+	 */
+	const renderInProvider = async <T>(useHook: () => T, timeout = 1000) => {
+		const result: { current: T | null } = { current: null };
+		const Probe = () => {
+			result.current = useHook();
+			return null;
+		};
+
+		await render(createElement(RiftProvider, { timeout }, createElement(Probe)));
+		await settle();
+		return result;
+	};
+
+	beforeEach(() => {
+		mock = new MockWallet({ address: '0x01', network: 'flow-testnet' }).install();
+	});
+
+	afterEach(async () => {
+		await act(async () => root?.unmount());
+		root = null;
+		mock?.uninstall();
+		mock = null;
+	});
+
+	describe('RiftProvider', () => {
+		it('connects and follows the account and connection of the wallet', async () => {
+			const state = await renderInProvider<RiftContextValue>(useRift);
+
+			expect(state.current).toMatchObject({ status: 'connected', address: '0x01', network: 'flow-testnet' });
+
+			act(() => mock!.setAccount('0x02', 'flow-mainnet'));
+			expect(state.current).toMatchObject({ address: '0x02', network: 'flow-mainnet' });
+
+			act(() => mock!.disconnect());
+			expect(state.current).toMatchObject({ status: 'disconnected', address: null });
+		});
+
+		it('reports a missing wallet as unavailable', async () => {
+			mock!.uninstall();
+			mock = null;
+
+			const state = await renderInProvider<RiftContextValue>(useRift, 50);
+			await settle();
+
+			expect(state.current?.status).toBe('unavailable');
+			expect(state.current?.error?.code).toBe('wallet_unavailable');
+		});
+
+		it('requires a provider for its hooks', async () => {
+			jest.spyOn(console, 'error').mockImplementation(() => {});
+			const Probe = () => {
+				useRift();
+				return null;
+			};
+
+			await expect(render(createElement(Probe))).rejects.toThrow('useRift must be used within a RiftProvider');
+			jest.restoreAllMocks();
+		});
+	});
+
+	describe('useQuery', () => {
+		it('runs once connected and again only when the values of its arguments change', async () => {
+			mock!.mockQueryResult('1').mockQueryResult('2');
+			const query: { current: UseQueryResult<string> | null } = { current: null };
+			const Probe = ({ id }: { id: number }) => {
+				query.current = useQuery<string>(cadence, [arg(id, t.UInt64)]);
+				return null;
+			};
+			const rerender = (id: number) =>
+				act(async () => root!.render(createElement(RiftProvider, { timeout: 1000 }, createElement(Probe, { id }))));
+
+			await render(createElement(RiftProvider, { timeout: 1000 }, createElement(Probe, { id: 1 })));
+			await settle();
+			await settle();
+			expect(query.current).toMatchObject({ data: '1', error: null, isLoading: false });
+
+			await rerender(1);
+			await settle();
+			expect(mock!.intents).toHaveLength(1);
+
+			await rerender(2);
+			await settle();
+			expect(query.current?.data).toBe('2');
+			expect(mock!.intents.map((intent) => intent.payload.args)).toEqual([
+				[{ type: 'UInt64', value: '1' }],
+				[{ type: 'UInt64', value: '2' }],
+			]);
+		});
+	});
+
+	describe('useMutate', () => {
+		it('follows a transaction until it is sealed', async () => {
+			mock!.mockMutateSuccess('0xtx');
+			const mutation = await renderInProvider<UseMutateResult>(useMutate);
+
+			await act(async () => {
+				await mutation.current!.mutate({ cadence: 'transaction {}', args: [] });
+			});
+			expect(mutation.current).toMatchObject({ stage: 'submitted', txId: '0xtx' });
+
+			act(() => mock!.sendTxStatus('0xtx', 'sealed'));
+			expect(mutation.current).toMatchObject({
+				stage: 'sealed',
+				txStatus: expect.objectContaining({ status: 'sealed' }),
+			});
+
+			act(() => mutation.current!.reset());
+			expect(mutation.current).toMatchObject({ stage: 'idle', txId: null });
+		});
+
+		it('reports rejected transactions as errors', async () => {
+			mock!.mockMutateRejection();
+			const mutation = await renderInProvider<UseMutateResult>(useMutate);
+
+			await act(async () => {
+				expect(await mutation.current!.mutate({ cadence: 'transaction {}', args: [] })).toBeNull();
+			});
+
+			expect(mutation.current).toMatchObject({
+				stage: 'error',
+				error: expect.objectContaining({ code: 'user_rejected' }),
+			});
+		});
+
+		it('reports transactions submitted before the provider connected', async () => {
+			mock!.uninstall();
+			mock = null;
+			const mutation = await renderInProvider<UseMutateResult>(useMutate, 50);
+
+			await act(async () => {
+				expect(await mutation.current!.mutate({ cadence: 'transaction {}', args: [] })).toBeNull();
+			});
+
+			expect(mutation.current).toMatchObject({
+				stage: 'error',
+				error: expect.objectContaining({ code: 'not_initialized' }),
+			});
+		});
+	});
+});
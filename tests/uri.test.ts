@@ -0,0 +1,123 @@
+import { buildRiftUri, findRiftUris, parseRiftUri, validateRiftUri } from '../src';
+
+describe('parseRiftUri', () => {
+	it('splits the host, path, parameters and fragment', () => {
+		expect(parseRiftUri('rift://mydapp.com/mint?id=1&rift-height=tall#details')).toEqual({
+			host: 'mydapp.com',
+			path: '/mint',
+			query: '?id=1&rift-height=tall',
+			fragment: '#details',
+			riftParams: { height: 'tall' },
+			appParams: { id: '1' },
+		});
+	});
+
+	it('keeps the port and normalizes the host', () => {
+		const parsed = parseRiftUri('rift://LocalHost:3000');
+
+		expect(parsed?.host).toBe('localhost:3000');
+		expect(parsed?.path).toBe('');
+	});
+
+	it('keeps a default port written explicitly', () => {
+		expect(parseRiftUri('rift://localhost:443/x')?.host).toBe('localhost:443');
+		expect(parseRiftUri('rift://[::1]:443')?.host).toBe('[::1]:443');
+		expect(buildRiftUri({ host: 'localhost:443', path: '/x' })).toBe('rift://localhost:443/x');
+	});
+
+	it('returns null for other schemes and missing hosts', () => {
+		expect(parseRiftUri('https://mydapp.com')).toBeNull();
+		expect(parseRiftUri('rift://')).toBeNull();
+	});
+});
+
+describe('buildRiftUri', () => {
+	it('prefixes rift parameters once', () => {
+		expect(
+			buildRiftUri({
+				host: 'mydapp.com',
+				path: '/mint',
+				appParams: { id: '1' },
+				riftParams: { height: 'tall', 'rift-color': '#ff0000' },
+				fragment: 'details',
+			}),
+		).toBe('rift://mydapp.com/mint?id=1&rift-height=tall&rift-color=%23ff0000#details');
+	});
+
+	it('round-trips through parseRiftUri', () => {
+		const uri = buildRiftUri({ host: 'localhost:3000', path: '/a b', appParams: { q: 'x&y' } });
+		const parsed = parseRiftUri(uri);
+
+		expect(parsed?.host).toBe('localhost:3000');
+		expect(parsed?.path).toBe('/a%20b');
+		expect(parsed?.appParams).toEqual({ q: 'x&y' });
+	});
+
+	it('rejects hosts carrying more than a host', () => {
+		expect(() => buildRiftUri({ host: 'mydapp.com/mint' })).toThrow(
+			expect.objectContaining({ code: 'invalid_payload' }),
+		);
+		expect(() => buildRiftUri({ host: 'user@mydapp.com' })).toThrow(
+			expect.objectContaining({ code: 'invalid_payload' }),
+		);
+	});
+});
+
+describe('validateRiftUri', () => {
+	it('accepts valid URIs', () => {
+		expect(validateRiftUri('rift://mydapp.com/mint?rift-height=compact&rift-color=%23abc')).toEqual({
+			valid: true,
+			errors: [],
+		});
+		expect(validateRiftUri('rift://127.0.0.1:8080')).toEqual({ valid: true, errors: [] });
+	});
+
+	it('reports the scheme and host', () => {
+		expect(validateRiftUri('https://mydapp.com').errors).toEqual([expect.objectContaining({ code: 'invalid_scheme' })]);
+		expect(validateRiftUri('rift://my_dapp.com').errors).toEqual([expect.objectContaining({ code: 'invalid_host' })]);
+	});
+
+	it('reports every invalid rift parameter', () => {
+		const { valid, errors } = validateRiftUri('rift://mydapp.com?rift-height=huge&rift-color=red&rift-mode=dark');
+
+		expect(valid).toBe(false);
+		expect(errors.map(({ code, param }) => ({ code, param }))).toEqual([
+			{ code: 'invalid_height', param: 'height' },
+			{ code: 'invalid_color', param: 'color' },
+			{ code: 'unknown_rift_param', param: 'mode' },
+		]);
+	});
+});
+
+describe('findRiftUris', () => {
+	it('matches every URI buildRiftUri produces', () => {
+		const uris = [
+			buildRiftUri({ host: 'a.com', appParams: { q: 'a*b' } }),
+			buildRiftUri({ host: 'a.com', fragment: 'x' }),
+			buildRiftUri({ host: 'a.com', path: "/it's" }),
+			buildRiftUri({ host: '[::1]:8080', path: '/mint' }),
+			buildRiftUri({ host: 'bücher.de', riftParams: { color: '#ff0000' } }),
+			buildRiftUri({ host: 'a.com', path: '/wiki/Flow_(blockchain)' }),
+		];
+
+		uris.forEach((uri) => {
+			expect(findRiftUris(`Try ${uri} now`)).toEqual([{ uri, startIndex: 4, endIndex: 4 + uri.length }]);
+		});
+	});
+
+	it('matches hosts written in Unicode', () => {
+		expect(findRiftUris('rift://bücher.de/x')).toEqual([{ uri: 'rift://bücher.de/x', startIndex: 0, endIndex: 18 }]);
+	});
+
+	it('leaves out the punctuation ending a sentence', () => {
+		expect(findRiftUris('Open rift://a.com/mint. Or (rift://b.com/x), "rift://c.com"!').map(({ uri }) => uri)).toEqual([
+			'rift://a.com/mint',
+			'rift://b.com/x',
+			'rift://c.com',
+		]);
+	});
+
+	it('skips URIs parseRiftUri rejects', () => {
+		expect(findRiftUris('rift://:80 rift://a.com')).toEqual([{ uri: 'rift://a.com', startIndex: 11, endIndex: 23 }]);
+	});
+});